@@ -0,0 +1,221 @@
+import type { EvictionReason } from "./index.js";
+
+export type ChangeType = "set" | "update" | "delete" | "expire" | "evict";
+
+export interface ChangeEvent<T, K = string> {
+  type: ChangeType;
+  key: K;
+  // Undefined for set events
+  oldValue: T | undefined;
+  // Undefined for delete, expire and evict events
+  newValue: T | undefined;
+  // Why the entry was removed, for delete, expire and evict events
+  reason?: EvictionReason;
+}
+
+export type ChangeListener<T, K = string> = (event: ChangeEvent<T, K>) => void;
+
+export interface WatchOptions {
+  // Events held for an iterator that is not keeping up, before the oldest are dropped
+  bufferSize?: number;
+}
+
+interface Subscriber<T, K> {
+  deliver(event: ChangeEvent<T, K>): void;
+  close(): void;
+}
+
+interface PendingChange<T, K> {
+  event: ChangeEvent<T, K>;
+  hash: unknown;
+}
+
+// Async iterator over the changes a subscriber watches. The cache never waits for a
+// consumer, so once bufferSize events are waiting the oldest one is dropped.
+export class ChangeStream<T, K = string> implements AsyncIterableIterator<ChangeEvent<T, K>> {
+  // Events dropped because the buffer was full
+  dropped: number = 0;
+  private buffer: ChangeEvent<T, K>[] = [];
+  private bufferSize: number;
+  // Resolvers of next() calls waiting for an event, oldest first
+  private waiting: ((result: IteratorResult<ChangeEvent<T, K>>) => void)[] = [];
+  private closed: boolean = false;
+  private onClose: () => void;
+
+  constructor(bufferSize: number, onClose: () => void) {
+    this.bufferSize = bufferSize;
+    this.onClose = onClose;
+  }
+
+  next(): Promise<IteratorResult<ChangeEvent<T, K>>> {
+    const event = this.buffer.shift();
+    if (event) {
+      return Promise.resolve({ value: event, done: false });
+    }
+    if (this.closed) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve) => {
+      this.waiting.push(resolve);
+    });
+  }
+
+  // Called when a for await loop exits early
+  return(): Promise<IteratorResult<ChangeEvent<T, K>>> {
+    this.unsubscribe();
+    this.buffer = [];
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): ChangeStream<T, K> {
+    return this;
+  }
+
+  // Stops receiving events; those already buffered can still be read
+  unsubscribe(): void {
+    if (this.closed) return;
+
+    this.closed = true;
+    this.onClose();
+    const waiting = this.waiting;
+    this.waiting = [];
+    for (const resolve of waiting) {
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  push(event: ChangeEvent<T, K>): void {
+    if (this.closed) return;
+
+    const waiting = this.waiting.shift();
+    if (waiting) {
+      waiting({ value: event, done: false });
+      return;
+    }
+
+    this.buffer.push(event);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.shift();
+      this.dropped++;
+    }
+  }
+}
+
+// Subscribers to a cache's changes, by key or cache-wide. Changes are queued while
+// the cache is being modified and only delivered once it is consistent again.
+export class ChangeFeed<T, K> {
+  private all: Set<Subscriber<T, K>> = new Set();
+  private byKey: Map<unknown, Set<Subscriber<T, K>>> = new Map();
+  private pending: PendingChange<T, K>[] = [];
+  private sameKey: (a: K, b: K) => boolean;
+
+  constructor(sameKey: (a: K, b: K) => boolean) {
+    this.sameKey = sameKey;
+  }
+
+  // Whether anyone would receive a change to the key stored under this hash
+  watches(hash: unknown): boolean {
+    return this.all.size > 0 || this.byKey.has(hash);
+  }
+
+  // A null key subscribes to every key
+  subscribe(
+    key: K | null,
+    hash: unknown,
+    listenerOrOptions: ChangeListener<T, K> | WatchOptions = {}
+  ): ChangeStream<T, K> | (() => void) {
+    const options = typeof listenerOrOptions === "function" ? {} : listenerOrOptions;
+    const bufferSize = options.bufferSize !== undefined ? options.bufferSize : 100;
+    if (!Number.isFinite(bufferSize) || bufferSize < 1) {
+      throw new Error("bufferSize must be a positive finite number");
+    }
+
+    const subscribers = this.subscribersFor(key, hash);
+    const remove = () => {
+      subscribers.delete(subscriber);
+      if (key !== null && subscribers.size === 0 && this.byKey.get(hash) === subscribers) {
+        this.byKey.delete(hash);
+      }
+    };
+    const matches = (event: ChangeEvent<T, K>) => key === null || this.sameKey(key, event.key);
+
+    let subscriber: Subscriber<T, K>;
+    let result: ChangeStream<T, K> | (() => void);
+    if (typeof listenerOrOptions === "function") {
+      const listener = listenerOrOptions;
+      subscriber = {
+        deliver: (event) => {
+          if (matches(event)) listener(event);
+        },
+        close: remove,
+      };
+      result = remove;
+    } else {
+      const stream = new ChangeStream<T, K>(Math.floor(bufferSize), remove);
+      subscriber = {
+        deliver: (event) => {
+          if (matches(event)) stream.push(event);
+        },
+        close: () => stream.unsubscribe(),
+      };
+      result = stream;
+    }
+
+    subscribers.add(subscriber);
+    return result;
+  }
+
+  queue(event: ChangeEvent<T, K>, hash: unknown): void {
+    this.pending.push({ event, hash });
+  }
+
+  flush(): void {
+    // Listeners may touch the cache again, so drain in rounds until nothing new was queued.
+    // A throwing listener does not keep the others from running; the first error is rethrown.
+    let failure: { error: unknown } | null = null;
+    while (this.pending.length > 0) {
+      const pending = this.pending;
+      this.pending = [];
+
+      for (const { event, hash } of pending) {
+        const keyed = this.byKey.get(hash);
+        for (const subscriber of keyed ? [...keyed, ...this.all] : [...this.all]) {
+          try {
+            subscriber.deliver(event);
+          } catch (error) {
+            failure = failure || { error };
+          }
+        }
+      }
+    }
+
+    if (failure) {
+      throw failure.error;
+    }
+  }
+
+  // Ends every subscription, letting iterators finish once their buffers are read
+  close(): void {
+    this.pending = [];
+    const subscribers = [...this.all];
+    for (const keyed of this.byKey.values()) {
+      subscribers.push(...keyed);
+    }
+
+    for (const subscriber of subscribers) {
+      subscriber.close();
+    }
+  }
+
+  private subscribersFor(key: K | null, hash: unknown): Set<Subscriber<T, K>> {
+    if (key === null) return this.all;
+
+    let subscribers = this.byKey.get(hash);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.byKey.set(hash, subscribers);
+    }
+    return subscribers;
+  }
+}
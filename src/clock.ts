@@ -0,0 +1,129 @@
+// Source of the current time in milliseconds. Expiry timestamps, snapshots and
+// getExpiresAt are all expressed in the clock's time.
+export interface Clock {
+  now(): number;
+}
+
+// Runs the cache's background cleanup. Handles are opaque to the cache.
+export interface Scheduler {
+  setTimeout(callback: () => void, delayMs: number): unknown;
+  clearTimeout(handle: unknown): void;
+  setInterval(callback: () => void, intervalMs: number): unknown;
+  clearInterval(handle: unknown): void;
+}
+
+// Whole milliseconds since the epoch that never move backwards, so a wall-clock
+// jump cannot expire everything at once (or keep entries alive for too long)
+export const monotonicClock: Clock = {
+  now: () => Math.floor(performance.timeOrigin + performance.now()),
+};
+
+// Global timers that do not keep the process alive on their own
+export const timerScheduler: Scheduler = {
+  setTimeout(callback, delayMs) {
+    const timer = setTimeout(callback, delayMs);
+    timer.unref();
+    return timer;
+  },
+  clearTimeout(handle) {
+    clearTimeout(handle as NodeJS.Timeout);
+  },
+  setInterval(callback, intervalMs) {
+    const timer = setInterval(callback, intervalMs);
+    timer.unref();
+    return timer;
+  },
+  clearInterval(handle) {
+    clearInterval(handle as NodeJS.Timeout);
+  },
+};
+
+interface ManualTimer {
+  id: number;
+  dueAt: number;
+  intervalMs: number | null;
+  callback: () => void;
+}
+
+// Clock and scheduler for tests: time only moves when advanced, and timers that
+// fall due are run synchronously by advance. Pass it as both `clock` and `scheduler`.
+export class ManualClock implements Clock, Scheduler {
+  private time: number;
+  private timers: ManualTimer[];
+  private nextId: number;
+
+  constructor(start: number = 0) {
+    this.time = start;
+    this.timers = [];
+    this.nextId = 1;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  // Moves time forward, running every timer due on the way in due-time order
+  advance(ms: number): void {
+    if (!Number.isFinite(ms) || ms < 0) {
+      throw new Error("ms must be a non-negative finite number");
+    }
+
+    const target = this.time + ms;
+    for (let timer = this.nextDue(target); timer; timer = this.nextDue(target)) {
+      this.time = timer.dueAt;
+      if (timer.intervalMs === null) {
+        this.remove(timer.id);
+      } else {
+        timer.dueAt += timer.intervalMs;
+      }
+      timer.callback();
+    }
+    this.time = target;
+  }
+
+  // Number of timers waiting to run
+  pending(): number {
+    return this.timers.length;
+  }
+
+  setTimeout(callback: () => void, delayMs: number): unknown {
+    return this.add(callback, delayMs, null);
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.remove(handle as number);
+  }
+
+  setInterval(callback: () => void, intervalMs: number): unknown {
+    // An interval of 0 would make advance loop forever
+    return this.add(callback, intervalMs, Math.max(1, intervalMs));
+  }
+
+  clearInterval(handle: unknown): void {
+    this.remove(handle as number);
+  }
+
+  private add(callback: () => void, delayMs: number, intervalMs: number | null): number {
+    const id = this.nextId++;
+    this.timers.push({ id, dueAt: this.time + Math.max(0, delayMs), intervalMs, callback });
+    return id;
+  }
+
+  private remove(id: number): void {
+    const index = this.timers.findIndex((timer) => timer.id === id);
+    if (index >= 0) {
+      this.timers.splice(index, 1);
+    }
+  }
+
+  // Earliest timer due by the target time; timers due together run in the order they were set
+  private nextDue(target: number): ManualTimer | null {
+    let next: ManualTimer | null = null;
+    for (const timer of this.timers) {
+      if (timer.dueAt <= target && (!next || timer.dueAt < next.dueAt || (timer.dueAt === next.dueAt && timer.id < next.id))) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+}
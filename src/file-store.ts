@@ -0,0 +1,124 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { readFileIfExists, writeFileAtomic } from "./files.js";
+import type { SnapshotCodec } from "./index.js";
+import type { SecondaryStore } from "./tiered.js";
+
+export interface FileStoreOptions<T, E = T, K = string> {
+  directory: string;
+  // Turns values into something JSON can hold, like the snapshot codec
+  codec?: SnapshotCodec<T, E>;
+  // Names the file of each key; required for keys other than strings, finite numbers and booleans
+  keyToString?: (key: K) => string;
+}
+
+interface StoredEntry<E> {
+  value: E;
+  expiresAt: number | null;
+}
+
+// Object keys may be told apart by identity, which no file name can capture, and JSON
+// would give symbols, NaN and the like a name they share with other keys
+function primitiveKeyName(key: unknown): string {
+  if (typeof key === "string" || typeof key === "boolean" || (typeof key === "number" && Number.isFinite(key))) {
+    return JSON.stringify(key);
+  }
+  throw new Error("keyToString is required for keys other than strings, finite numbers and booleans");
+}
+
+// Secondary store keeping one JSON file per key, named by a hash of the key.
+// Expired files are removed when they are next read.
+export class FileStore<T, K = string, E = T> implements SecondaryStore<T, K> {
+  private directory: string;
+  private codec: SnapshotCodec<T, E> | null;
+  private keyToString: ((key: K) => string) | null;
+  private ready: Promise<unknown> | null;
+
+  constructor(options: FileStoreOptions<T, E, K>) {
+    if (!options || !options.directory) {
+      throw new Error("directory is required");
+    }
+
+    this.directory = options.directory;
+    this.codec = options.codec || null;
+    this.keyToString = options.keyToString || null;
+    this.ready = null;
+  }
+
+  async get(key: K): Promise<T | undefined> {
+    const entry = await this.read(key);
+    if (!entry) {
+      return undefined;
+    }
+    return this.codec ? this.codec.decode(entry.value) : entry.value as unknown as T;
+  }
+
+  async set(key: K, value: T, ttlMs: number): Promise<void> {
+    if (typeof ttlMs !== "number" || !(ttlMs > 0)) {
+      throw new Error("ttlMs must be a positive number or Infinity");
+    }
+
+    const entry: StoredEntry<E> = {
+      value: this.codec ? this.codec.encode(value) : value as unknown as E,
+      expiresAt: ttlMs === Infinity ? null : Date.now() + ttlMs,
+    };
+
+    if (!this.ready) {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- files live in the directory chosen by the caller
+      this.ready = fs.mkdir(this.directory, { recursive: true });
+    }
+    await this.ready;
+    await writeFileAtomic(this.pathOf(key), JSON.stringify(entry));
+  }
+
+  async delete(key: K): Promise<boolean> {
+    return this.unlink(this.pathOf(key));
+  }
+
+  async ttl(key: K): Promise<number | null> {
+    const entry = await this.read(key);
+    if (!entry) {
+      return null;
+    }
+    return entry.expiresAt === null ? Infinity : Math.max(0, entry.expiresAt - Date.now());
+  }
+
+  private async read(key: K): Promise<StoredEntry<E> | null> {
+    const file = this.pathOf(key);
+    const contents = await readFileIfExists(file);
+    if (contents === null) {
+      return null;
+    }
+
+    const entry = JSON.parse(contents) as StoredEntry<E>;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      await this.unlink(file);
+      return null;
+    }
+    return entry;
+  }
+
+  private async unlink(file: string): Promise<boolean> {
+    try {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- files live in the directory chosen by the caller
+      await fs.unlink(file);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private pathOf(key: K): string {
+    const keyName = this.keyToString ? this.keyToString(key) : primitiveKeyName(key);
+    if (typeof keyName !== "string") {
+      throw new Error("keyToString must return a string");
+    }
+
+    const name = createHash("sha256").update(keyName).digest("hex");
+    return path.join(this.directory, `${name}.json`);
+  }
+}
@@ -0,0 +1,39 @@
+import { promises as fs } from "fs";
+
+let nextTempId = 0;
+
+// Writes the file next to its final location and renames it into place, so
+// readers never see a partial file.
+export async function writeFileAtomic(path: string, contents: string): Promise<void> {
+  const tempPath = `${path}.${process.pid}.${nextTempId++}.tmp`;
+
+  try {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- paths are chosen by the caller
+    const handle = await fs.open(tempPath, "w");
+    try {
+      await handle.writeFile(contents);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- paths are chosen by the caller
+    await fs.rename(tempPath, path);
+  } catch (error) {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- paths are chosen by the caller
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+// Reads a file as UTF-8, or returns null if it does not exist
+export async function readFileIfExists(path: string): Promise<string | null> {
+  try {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- paths are chosen by the caller
+    return await fs.readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -1,3 +1,30 @@
+import { Clock, Scheduler, monotonicClock, timerScheduler } from "./clock.js";
+import { ChangeEvent, ChangeFeed, ChangeListener, ChangeStream, ChangeType, WatchOptions } from "./changes.js";
+import { Memoized, WrapOptions, wrapFunction } from "./memoize.js";
+import { Node } from "./node.js";
+import { EvictionPolicy, PolicyName, createPolicy } from "./policies.js";
+
+export { formatPrometheus } from "./metrics.js";
+export type { PrometheusOptions, PrometheusSource } from "./metrics.js";
+export { saveSnapshot, loadSnapshot } from "./snapshot.js";
+export { ManualClock, monotonicClock, timerScheduler } from "./clock.js";
+export { memoize, argumentsKey } from "./memoize.js";
+export type { Memoized, MemoizeOptions, WrapOptions } from "./memoize.js";
+export type { Clock, Scheduler } from "./clock.js";
+export { TieredCache } from "./tiered.js";
+export type { SecondaryStore, TieredCacheOptions } from "./tiered.js";
+export { FileStore } from "./file-store.js";
+export type { FileStoreOptions } from "./file-store.js";
+export { InvalidationBus, BroadcastChannelTransport, ClusterTransport } from "./invalidation.js";
+export type { InvalidationBusOptions, InvalidationMessage, InvalidationTransport } from "./invalidation.js";
+export { ChangeStream } from "./changes.js";
+export type { ChangeEvent, ChangeListener, ChangeType, WatchOptions } from "./changes.js";
+export { SharedCache } from "./shared.js";
+export type { SharedAttachOptions, SharedCacheHandle, SharedCacheOptions, SharedSetOptions, SharedValue } from "./shared.js";
+export { Node } from "./node.js";
+export { LruPolicy, LfuPolicy, FifoPolicy, ArcPolicy, WTinyLfuPolicy } from "./policies.js";
+export type { EvictionPolicy, PolicyName } from "./policies.js";
+
 class ObjectPool<T> {
   private pool: T[] = [];
   private createFn: () => T;
@@ -18,258 +45,1801 @@ class ObjectPool<T> {
   }
 }
 
-class Node<T> {
-  key: string = "";
-  value: T | null = null;
-  expiresAt: number = 0;
-  prev: Node<T> | null = null;
-  next: Node<T> | null = null;
+// Entries stored under the hash of their key. Keys that share a hash are kept side by side
+// in a bucket and told apart with equals; without it, equal hashes mean equal keys.
+class KeyTable<K, E extends { key: K; hash: unknown }> {
+  size: number = 0;
+  private buckets: Map<unknown, E | E[]> = new Map();
+  private equals: ((a: K, b: K) => boolean) | null;
+
+  constructor(equals: ((a: K, b: K) => boolean) | null) {
+    this.equals = equals;
+  }
+
+  get(key: K, hash: unknown): E | undefined {
+    const bucket = this.buckets.get(hash);
+    if (bucket === undefined) return undefined;
+    if (!Array.isArray(bucket)) {
+      return !this.equals || this.equals(bucket.key, key) ? bucket : undefined;
+    }
+
+    // Only keys that equals tells apart ever share a bucket
+    const equals = this.equals as (a: K, b: K) => boolean;
+    return bucket.find((entry) => equals(entry.key, key));
+  }
+
+  has(entry: E): boolean {
+    const bucket = this.buckets.get(entry.hash);
+    return bucket === entry || (Array.isArray(bucket) && bucket.indexOf(entry) !== -1);
+  }
+
+  // Replaces any entry stored for the same key
+  set(entry: E): void {
+    const existing = this.get(entry.key, entry.hash);
+    if (existing) {
+      this.delete(existing);
+    }
+
+    const bucket = this.buckets.get(entry.hash);
+    if (bucket === undefined) {
+      this.buckets.set(entry.hash, entry);
+    } else if (Array.isArray(bucket)) {
+      bucket.push(entry);
+    } else {
+      this.buckets.set(entry.hash, [bucket, entry]);
+    }
+    this.size++;
+  }
+
+  delete(entry: E): boolean {
+    const bucket = this.buckets.get(entry.hash);
+    if (bucket === entry) {
+      this.buckets.delete(entry.hash);
+    } else if (Array.isArray(bucket) && bucket.indexOf(entry) !== -1) {
+      bucket.splice(bucket.indexOf(entry), 1);
+      if (bucket.length === 1) {
+        this.buckets.set(entry.hash, bucket[0]);
+      }
+    } else {
+      return false;
+    }
+
+    this.size--;
+    return true;
+  }
+
+  *values(): IterableIterator<E> {
+    for (const bucket of this.buckets.values()) {
+      if (Array.isArray(bucket)) {
+        yield* bucket;
+      } else {
+        yield bucket;
+      }
+    }
+  }
+
+  clear(): void {
+    this.buckets.clear();
+    this.size = 0;
+  }
+}
+
+// Binary min-heap ordered on expiresAt. Each node tracks its own position so
+// removals and updates from the middle of the heap stay O(log n).
+class ExpiryHeap<T, K> {
+  private items: Node<T, K>[] = [];
+
+  peek(): Node<T, K> | null {
+    return this.items.length > 0 ? this.items[0] : null;
+  }
+
+  push(node: Node<T, K>): void {
+    node.heapIndex = this.items.length;
+    this.items.push(node);
+    this.siftUp(node.heapIndex);
+  }
+
+  remove(node: Node<T, K>): void {
+    const index = node.heapIndex;
+    if (index < 0) return;
+
+    const last = this.items.pop() as Node<T, K>;
+    node.heapIndex = -1;
+
+    if (last !== node) {
+      this.items[index] = last;
+      last.heapIndex = index;
+      this.siftUp(index);
+      this.siftDown(last.heapIndex);
+    }
+  }
+
+  update(node: Node<T, K>): void {
+    this.siftUp(node.heapIndex);
+    this.siftDown(node.heapIndex);
+  }
+
+  clear(): void {
+    for (const node of this.items) {
+      node.heapIndex = -1;
+    }
+    this.items = [];
+  }
+
+  private siftUp(index: number): void {
+    const items = this.items;
+    const node = items[index];
+
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1;
+      const parent = items[parentIndex];
+      if (parent.expiresAt <= node.expiresAt) break;
+
+      items[index] = parent;
+      parent.heapIndex = index;
+      index = parentIndex;
+    }
 
-  reset(key: string, value: T, expiresAt: number): void {
-    this.key = key;
-    this.value = value;
-    this.expiresAt = expiresAt;
-    this.prev = null;
-    this.next = null;
+    items[index] = node;
+    node.heapIndex = index;
+  }
+
+  private siftDown(index: number): void {
+    const items = this.items;
+    const length = items.length;
+    const node = items[index];
+
+    for (;;) {
+      const left = 2 * index + 1;
+      if (left >= length) break;
+
+      const right = left + 1;
+      const child = right < length && items[right].expiresAt < items[left].expiresAt ? right : left;
+      if (items[child].expiresAt >= node.expiresAt) break;
+
+      items[index] = items[child];
+      items[index].heapIndex = index;
+      index = child;
+    }
+
+    items[index] = node;
+    node.heapIndex = index;
   }
 }
 
-interface CacheOptions {
+export interface CacheOptions<T = unknown, K = string> {
   maxSize: number;
+  maxBytes?: number;
+  sizeCalculation?: (value: T, key: K) => number;
   cleanupInterval?: number;
   autoCleanup?: boolean;
   ttlMs?: number;
+  // "sliding" pushes an entry's expiry out by its ttlMs on every read
+  expiration?: Expiration;
+  // Hard cap on an entry's lifetime, measured from when its key was first inserted
+  maxAgeMs?: number;
+  sweepBatchSize?: number;
+  sweepTimeBudgetMs?: number;
+  onSweep?: (report: SweepReport) => void;
+  // Background cleanup and refreshes have no caller to throw to, so errors from onEvict, onSweep
+  // or watchers during them are reported here; defaults to a process warning
+  onCleanupError?: (error: unknown) => void;
+  // expiresAt is when the entry would have expired (Infinity if never)
+  onEvict?: (key: K, value: T, reason: EvictionReason, expiresAt: number) => void;
+  loader?: Loader<T, K>;
+  rejectionTtlMs?: number;
+  // How long negative entries stored by setNegative or a loader returning undefined live; defaults to ttlMs
+  negativeTtlMs?: number;
+  staleWhileRevalidateMs?: number;
+  staleIfErrorMs?: number;
+  // Maps a key to the value it is stored under, so keys such as tuples can be looked up by value
+  keyHash?: (key: K) => unknown;
+  // Tells keys with the same keyHash apart; without it, equal hashes mean equal keys
+  keyEquals?: (a: K, b: K) => boolean;
+  // Indexes string keys by every prefix ending in this separator, so deleteByPrefix("user:42:")
+  // with ":" only touches the matching entries
+  prefixSeparator?: string;
+  // Which entry to evict when over capacity; a policy instance must not be shared between caches
+  policy?: PolicyName | EvictionPolicy<T, K>;
+  // Hold values through WeakRefs so the cache never keeps them alive on its own
+  weakValues?: boolean;
+  // Time source for expiry; defaults to a monotonic clock
+  clock?: Clock;
+  // Timers for background cleanup; defaults to unref'd global timers
+  scheduler?: Scheduler;
+}
+
+export interface LoaderContext {
+  // Aborted once every caller waiting on the load has aborted
+  signal: AbortSignal;
+}
+
+// Resolving to undefined stores a negative entry for the key
+export type Loader<T, K = string> = (key: K, context: LoaderContext) => T | undefined | Promise<T | undefined>;
+
+export interface FetchOptions extends SetOptions {
+  signal?: AbortSignal;
+}
+
+export type LookupResult<T> =
+  | { status: "fresh"; value: T }
+  | { status: "stale"; value: T }
+  // The key is known to have no value
+  | { status: "negative"; value: null }
+  // The last load failed and its rejection is remembered for rejectionTtlMs
+  | { status: "error"; value: null; error: unknown }
+  | { status: "miss"; value: null };
+
+export interface LookupOptions {
+  // Leave recency, expiry and stats untouched, like peek
+  peek?: boolean;
+}
+
+export interface NegativeOptions {
+  // Overrides the cache-wide negativeTtlMs for this entry
+  ttlMs?: number;
+  tags?: readonly string[];
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  // Reads that found a negative entry; counted apart from hits and misses
+  negativeHits: number;
+  // Misses caused by finding an expired entry on read
+  expiredOnRead: number;
+  // Entries evicted to stay within maxSize or maxBytes
+  evictions: number;
+  // Expired entries removed by cleanExpired or the background sweeper
+  sweeperRemovals: number;
+  sets: number;
+  // Sets that replaced an existing entry
+  overwrites: number;
+  deletes: number;
+  // Entries removed because their weakly held value was garbage collected
+  collected: number;
+  hitRatio: number;
+  size: number;
+}
+
+type StatsCounters = Omit<CacheStats, "hitRatio" | "size">;
+
+interface InflightLoad<T, K> {
+  key: K;
+  hash: unknown;
+  promise: Promise<T | undefined>;
+  controller: AbortController;
+  waiters: number;
+}
+
+interface FailedLoad<K> {
+  key: K;
+  hash: unknown;
+  error: unknown;
+  expiresAt: number;
+}
+
+export type EvictionReason = "lru" | "expired" | "deleted" | "cleared" | "replaced" | "invalidated";
+
+interface CollectedValue<T, K> {
+  node: Node<T, K>;
+  generation: number;
+}
+
+interface PendingEviction<T, K> {
+  key: K;
+  value: T;
+  reason: EvictionReason;
+  expiresAt: number;
+}
+
+export type Expiration = "absolute" | "sliding";
+
+export interface SetOptions {
+  // Overrides the cache-wide ttlMs for this entry. Infinity means never expires.
+  ttlMs?: number;
+  // Override the cache-wide expiration and maxAgeMs for this entry
+  expiration?: Expiration;
+  maxAgeMs?: number;
+  // Size of this entry counted against maxBytes, instead of calling sizeCalculation
+  size?: number;
+  // Groups the entry can be removed by with invalidateTag
+  tags?: readonly string[];
+  // Version of the value, such as a row's update counter, compared by versioned deletes
+  version?: number;
+}
+
+// Options that can be changed on a live cache
+export type ReconfigurableOption =
+  | "maxSize"
+  | "ttlMs"
+  | "cleanupInterval"
+  | "rejectionTtlMs"
+  | "staleWhileRevalidateMs"
+  | "staleIfErrorMs"
+  | "sweepBatchSize"
+  | "sweepTimeBudgetMs";
+
+export interface ReconfigureOptions extends Partial<Pick<CacheOptions, ReconfigurableOption>> {
+  // Moves entries stored with the previous default ttlMs onto the new one
+  rebaseTtl?: boolean;
+}
+
+export interface DefaultTtlOptions {
+  // Moves entries stored with the previous default ttlMs onto the new one
+  rebase?: boolean;
+}
+
+export interface DeleteOptions {
+  // Only delete if the stored value's version is not newer than this
+  version?: number;
+}
+
+export interface IterationOptions {
+  // Walk from least- to most-recently used instead
+  reverse?: boolean;
+}
+
+export interface SnapshotCodec<T, E> {
+  encode: (value: T) => E;
+  decode: (encoded: E) => T;
+}
+
+export interface SnapshotEntry<E, K = string> {
+  key: K;
+  value: E;
+  // Absolute expiry timestamp, or null for entries that never expire
+  expiresAt: number | null;
+  size?: number;
+  tags?: string[];
+}
+
+export interface CacheSnapshot<E = unknown, K = string> {
+  version: 1;
+  createdAt: number;
+  // Most-recently used first
+  entries: SnapshotEntry<E, K>[];
+}
+
+export interface DumpOptions<T, E> {
+  codec?: SnapshotCodec<T, E>;
+}
+
+export interface LoadOptions<T, E> {
+  codec?: SnapshotCodec<T, E>;
+  // Restore the time each entry had left when dumped, rather than its absolute expiry
+  useRemainingTtl?: boolean;
+}
+
+export interface SweepReport {
+  // Expired entries removed by this slice
+  removed: number;
+  // Expired entries removed since the current sweep started
+  totalRemoved: number;
+  // Slices run since the current sweep started, including this one
+  slices: number;
+  // Time spent in this slice
+  durationMs: number;
+  // True once no expired entries are left
+  done: boolean;
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason !== undefined ? signal.reason : new Error("fetch aborted");
+}
+
+// Shared by the constructor and reconfigure; a partial check skips the required maxSize when it is left out.
+// The constructor has always read a falsy ttlMs or cleanupInterval as the default, so only reconfigure checks them.
+function validateOptions<T, K>(options: Partial<CacheOptions<T, K>>, partial: boolean): void {
+  if ((!partial || options.maxSize !== undefined) && (!Number.isFinite(options.maxSize) || (options.maxSize as number) <= 0)) {
+    throw new Error("maxSize must be a positive finite number");
+  }
+
+  if (options.maxBytes !== undefined && (!Number.isFinite(options.maxBytes) || options.maxBytes <= 0)) {
+    throw new Error("maxBytes must be a positive finite number");
+  }
+
+  if (partial && options.ttlMs !== undefined && (typeof options.ttlMs !== "number" || Number.isNaN(options.ttlMs) || options.ttlMs <= 0)) {
+    throw new Error("ttlMs must be a positive number or Infinity");
+  }
+
+  if (partial && options.cleanupInterval !== undefined && (!Number.isFinite(options.cleanupInterval) || options.cleanupInterval <= 0)) {
+    throw new Error("cleanupInterval must be a positive finite number");
+  }
+
+  if (options.rejectionTtlMs !== undefined && (Number.isNaN(options.rejectionTtlMs) || options.rejectionTtlMs < 0)) {
+    throw new Error("rejectionTtlMs must be a non-negative number");
+  }
+
+  if (options.negativeTtlMs !== undefined && (typeof options.negativeTtlMs !== "number" || Number.isNaN(options.negativeTtlMs) || options.negativeTtlMs <= 0)) {
+    throw new Error("negativeTtlMs must be a positive number or Infinity");
+  }
+
+  if (options.staleWhileRevalidateMs !== undefined && (Number.isNaN(options.staleWhileRevalidateMs) || options.staleWhileRevalidateMs < 0)) {
+    throw new Error("staleWhileRevalidateMs must be a non-negative number");
+  }
+
+  if (options.staleIfErrorMs !== undefined && (Number.isNaN(options.staleIfErrorMs) || options.staleIfErrorMs < 0)) {
+    throw new Error("staleIfErrorMs must be a non-negative number");
+  }
+
+  validateExpiration(options.expiration, options.maxAgeMs);
+
+  if (options.sweepBatchSize !== undefined && (!Number.isFinite(options.sweepBatchSize) || options.sweepBatchSize < 1)) {
+    throw new Error("sweepBatchSize must be a positive finite number");
+  }
+
+  if (options.sweepTimeBudgetMs !== undefined && (Number.isNaN(options.sweepTimeBudgetMs) || options.sweepTimeBudgetMs <= 0)) {
+    throw new Error("sweepTimeBudgetMs must be a positive number");
+  }
+
+  if (options.prefixSeparator !== undefined && (typeof options.prefixSeparator !== "string" || options.prefixSeparator === "")) {
+    throw new Error("prefixSeparator must be a non-empty string");
+  }
+}
+
+// How each removal is reported to watchers
+const changeTypes: Record<EvictionReason, ChangeType> = {
+  lru: "evict",
+  expired: "expire",
+  deleted: "delete",
+  cleared: "delete",
+  replaced: "delete",
+  invalidated: "delete",
+};
+
+function validateExpiration(expiration: Expiration | undefined, maxAgeMs: number | undefined): void {
+  if (expiration !== undefined && expiration !== "absolute" && expiration !== "sliding") {
+    throw new Error("expiration must be 'absolute' or 'sliding'");
+  }
+
+  if (maxAgeMs !== undefined && (typeof maxAgeMs !== "number" || Number.isNaN(maxAgeMs) || maxAgeMs <= 0)) {
+    throw new Error("maxAgeMs must be a positive number or Infinity");
+  }
+}
+
+function identityCodec<T, E>(): SnapshotCodec<T, E> {
+  return {
+    encode: (value) => value as unknown as E,
+    decode: (encoded) => encoded as unknown as T,
+  };
 }
 
-export class Cache<T> {
-  private nodePool: ObjectPool<Node<T>>;
+export class Cache<T, K = string> {
+  private nodePool: ObjectPool<Node<T, K>>;
   private maxSize: number;
-  private cache: Map<string, Node<T>>;
-  private head: Node<T> | null;
-  private tail: Node<T> | null;
+  private maxBytes: number;
+  private totalBytes: number;
+  private sizeCalculation: ((value: T, key: K) => number) | null;
+  private keyHash: ((key: K) => unknown) | null;
+  private keyEquals: ((a: K, b: K) => boolean) | null;
+  private cache: KeyTable<K, Node<T, K>>;
+  private expiryHeap: ExpiryHeap<T, K>;
+  private policy: EvictionPolicy<T, K>;
   private cleanupInterval: number;
-  private cleanupTimer: NodeJS.Timeout | null;
+  private cleanupTimer: unknown;
+  private sweepTimer: unknown;
+  private clock: Clock;
+  private scheduler: Scheduler;
+  private sweepBatchSize: number;
+  private sweepTimeBudgetMs: number;
+  private sweepRemoved: number;
+  private sweepSlices: number;
+  private onSweep: ((report: SweepReport) => void) | null;
+  private onCleanupError: ((error: unknown) => void) | null;
+  private onEvict: ((key: K, value: T, reason: EvictionReason, expiresAt: number) => void) | null;
+  private pendingEvictions: PendingEviction<T, K>[];
+  private loader: Loader<T, K> | null;
+  private inflight: KeyTable<K, InflightLoad<T, K>>;
+  private rejectionTtlMs: number;
+  private negativeTtlMs: number;
+  // Whether negativeTtlMs was left to default to ttlMs, so it follows ttlMs when reconfigured
+  private negativeTtlFollowsTtl: boolean;
+  private failedLoads: KeyTable<K, FailedLoad<K>>;
+  private tagIndex: Map<string, Set<Node<T, K>>>;
+  private weakValues: boolean;
+  private changes: ChangeFeed<T, K> | null;
+  private finalizers: FinalizationRegistry<CollectedValue<T, K>> | null;
+  private prefixSeparator: string | null;
+  private prefixIndex: Map<string, Set<Node<T, K>>>;
+  // While a batch runs, eviction, cleanup and onEvict callbacks wait until it ends
+  private batchDepth: number;
+  private batchNow: number;
+  private staleWhileRevalidateMs: number;
+  private staleIfErrorMs: number;
+  private staleRetentionMs: number;
+  private counters: StatsCounters;
   private autoCleanup: boolean;
   private ttlMs: number;
+  private sliding: boolean;
+  private maxAgeMs: number;
   private lastCleanup: number;
   
-  constructor(options: CacheOptions = { maxSize: 1000, ttlMs: 60000 }) {
-    if (!Number.isFinite(options.maxSize) || options.maxSize <= 0) {
-      throw new Error("maxSize must be a positive finite number");
-    }
+  constructor(options: CacheOptions<T, K> = { maxSize: 1000, ttlMs: 60000 }) {
+    validateOptions(options, false);
 
     this.maxSize = Math.floor(options.maxSize);
-    this.cache = new Map();
-    this.head = null; // Most recently used
-    this.tail = null; // Least recently used
+    this.maxBytes = options.maxBytes || Infinity;
+    this.totalBytes = 0;
+    this.sizeCalculation = options.sizeCalculation || null;
+    this.keyHash = options.keyHash || null;
+    this.keyEquals = options.keyEquals || null;
+    this.cache = new KeyTable(this.keyEquals);
+    this.expiryHeap = new ExpiryHeap<T, K>();
+    this.policy = typeof options.policy === "object" && options.policy !== null
+      ? options.policy
+      : createPolicy<T, K>(options.policy || "lru", this.maxSize);
     this.ttlMs = options.ttlMs || 60000; // 1 minute default
-    this.lastCleanup = Date.now();
+    this.negativeTtlMs = options.negativeTtlMs || this.ttlMs;
+    this.negativeTtlFollowsTtl = !options.negativeTtlMs;
+    this.sliding = options.expiration === "sliding";
+    this.maxAgeMs = options.maxAgeMs !== undefined ? options.maxAgeMs : Infinity;
+    this.clock = options.clock || monotonicClock;
+    this.scheduler = options.scheduler || timerScheduler;
+    this.lastCleanup = this.clock.now();
 
     // Background cleanup options
     this.cleanupInterval = options.cleanupInterval || 60000; // 1 minute default
     this.cleanupTimer = null;
     this.autoCleanup = options.autoCleanup !== false; // enabled by default
 
+    // Incremental sweep options, bounding the work done per slice
+    this.sweepTimer = null;
+    this.sweepBatchSize = Math.floor(options.sweepBatchSize || 1000);
+    this.sweepTimeBudgetMs = options.sweepTimeBudgetMs || 10;
+    this.sweepRemoved = 0;
+    this.sweepSlices = 0;
+    this.onSweep = options.onSweep || null;
+    this.onCleanupError = options.onCleanupError || null;
+
+    // Eviction callbacks are queued and only run once the list and map are consistent again
+    this.onEvict = options.onEvict || null;
+    this.pendingEvictions = [];
+
+    // Loads started by fetch, shared by every concurrent caller for the same key
+    this.loader = options.loader || null;
+    this.inflight = new KeyTable(this.keyEquals);
+    this.rejectionTtlMs = options.rejectionTtlMs || 0; // rejections are not cached by default
+    this.failedLoads = new KeyTable(this.keyEquals);
+
+    // Nodes carrying each tag, so invalidating a tag only touches its entries
+    this.tagIndex = new Map();
+
+    this.prefixSeparator = options.prefixSeparator || null;
+    this.prefixIndex = new Map();
+
+    // Removes entries whose weakly held value was garbage collected
+    this.weakValues = options.weakValues === true;
+    this.finalizers = this.weakValues
+      ? new FinalizationRegistry(({ node, generation }) => {
+        if (node.generation === generation && this.cache.has(node)) {
+          this.removeNode(node, null);
+        }
+      })
+      : null;
+
+    // Created by the first watch, so an unwatched cache does no change bookkeeping
+    this.changes = null;
+
+    this.batchDepth = 0;
+    this.batchNow = 0;
+
+    // Expired entries are kept around for the longer of the two stale windows
+    this.staleWhileRevalidateMs = options.staleWhileRevalidateMs || 0;
+    this.staleIfErrorMs = options.staleIfErrorMs || 0;
+    this.staleRetentionMs = Math.max(this.staleWhileRevalidateMs, this.staleIfErrorMs);
+
+    this.counters = {
+      hits: 0,
+      misses: 0,
+      negativeHits: 0,
+      expiredOnRead: 0,
+      evictions: 0,
+      sweeperRemovals: 0,
+      sets: 0,
+      overwrites: 0,
+      deletes: 0,
+      collected: 0,
+    };
+
     if (this.autoCleanup) {
       this.startBackgroundCleanup();
     }
 
-    this.nodePool = new ObjectPool<Node<T>>(
-      () => new Node<T>(),
-      (node) => node.reset('', null as T, 0)
+    this.nodePool = new ObjectPool<Node<T, K>>(
+      () => new Node<T, K>(),
+      (node) => node.reset(undefined as unknown as K, null as T, 0)
     );
   }
 
-  get(key: string): T | null {
-    const node = this.cache.get(key);
-    if (!node) return null;
+  get(key: K): T | null {
+    const node = this.access(key, this.clock.now(), this.loader);
+    const value = node ? this.valueOf(node) : null;
 
-    const now = Date.now();
+    this.flushEvictions();
+    return value;
+  }
 
-    // O(1) lazy expiration check
-    if (now >= node.expiresAt) {
-      this.removeNode(node);
-      return null;
+  lookup(key: K, options: LookupOptions = {}): LookupResult<T> {
+    const now = this.clock.now();
+    let node: Node<T, K> | null;
+    if (options.peek) {
+      const found = this.findNode(key);
+      node = found && this.isReadable(found, now) ? found : null;
+    } else {
+      node = this.access(key, now, this.loader);
     }
 
-    // Periodic cleanup if needed
-    this.maybeCleanup();
+    let result: LookupResult<T>;
+    if (!node) {
+      const failed = this.failedLoads.get(key, this.hashKey(key));
+      result = failed && now < failed.expiresAt
+        ? { status: "error", value: null, error: failed.error }
+        : { status: "miss", value: null };
+    } else if (node.negative) {
+      result = { status: "negative", value: null };
+    } else if (now >= node.expiresAt) {
+      result = { status: "stale", value: this.valueOf(node) };
+    } else {
+      result = { status: "fresh", value: this.valueOf(node) };
+    }
 
-    // Move to front (most recently used)
-    this.moveToFront(node);
+    this.flushEvictions();
+    return result;
+  }
 
-    return node.value;
+  has(key: K): boolean {
+    return this.inspect(key) !== null;
   }
 
-  set(key: string, value: T): void {
-    if (typeof key !== "string" || key.length === 0) {
-      throw new Error("key must be a non-empty string");
+  peek(key: K): T | null {
+    const node = this.inspect(key);
+    return node ? this.valueOf(node) : null;
+  }
+
+  getExpiresAt(key: K): number | null {
+    const node = this.inspect(key);
+    return node ? node.expiresAt : null;
+  }
+
+  getRemainingTtl(key: K): number | null {
+    const node = this.inspect(key);
+    return node ? Math.max(0, node.expiresAt - this.clock.now()) : null;
+  }
+
+  set(key: K, value: T, options: SetOptions = {}): void {
+    this.store(key, value, options, false);
+  }
+
+  // Remembers that the key has no value, e.g. because the backend reported it as not found.
+  // Reads see a negative entry as absent, while lookup reports it as "negative".
+  setNegative(key: K, options: NegativeOptions = {}): void {
+    this.store(key, null as T, {
+      ttlMs: options.ttlMs !== undefined ? options.ttlMs : this.negativeTtlMs,
+      expiration: "absolute",
+      tags: options.tags,
+    }, true);
+  }
+
+  private store(key: K, value: T, options: SetOptions, negative: boolean): void {
+    this.validateKey(key);
+
+    const ttlMs = options.ttlMs !== undefined ? options.ttlMs : this.ttlMs;
+    if (typeof ttlMs !== "number" || Number.isNaN(ttlMs) || ttlMs <= 0) {
+      throw new Error("ttlMs must be a positive number or Infinity");
     }
 
-    const now = Date.now();
-    const expiresAt = now + this.ttlMs;
+    if (this.weakValues && !negative && (typeof value !== "object" || value === null) && typeof value !== "function") {
+      throw new Error("weakValues requires object values");
+    }
 
-    // If key exists, update it
-    const existingNode = this.cache.get(key);
+    const size = negative ? 0 : this.entrySize(key, value, options);
+    const tags = this.validateTags(options.tags);
+    if (options.version !== undefined && !Number.isFinite(options.version)) {
+      throw new Error("version must be a finite number");
+    }
+    const version = options.version !== undefined ? options.version : -Infinity;
+    validateExpiration(options.expiration, options.maxAgeMs);
+    const sliding = options.expiration !== undefined ? options.expiration === "sliding" : this.sliding;
+    const maxAgeMs = options.maxAgeMs !== undefined ? options.maxAgeMs : this.maxAgeMs;
+    const hash = this.hashKey(key);
+
+    // An explicit write wins over any load still in flight for this key
+    this.forgetLoads(key, hash);
+
+    const now = this.batchDepth > 0 ? this.batchNow : this.clock.now();
+    this.counters.sets++;
+
+    const existingNode = this.cache.get(key, hash);
+
+    // If key exists, update it. Its age still counts from when it was first inserted,
+    // unless it had already expired.
     if (existingNode) {
-      existingNode.value = value;
-      existingNode.expiresAt = expiresAt;
+      this.counters.overwrites++;
+      const insertedAt = now < existingNode.expiresAt ? existingNode.insertedAt : now;
+      // An entry that had already expired is written anew rather than updated
+      const oldValue = existingNode.negative || now >= existingNode.expiresAt ? undefined : this.valueOf(existingNode);
+
+      if (this.onEvict && this.valueOf(existingNode) !== value) {
+        this.queueEviction(existingNode, "replaced");
+      }
+
+      this.release(existingNode);
+      existingNode.generation++;
+      existingNode.value = this.hold(existingNode, value, negative);
+      existingNode.negative = negative;
+      existingNode.ttlMs = ttlMs;
+      existingNode.refreshFailed = false;
+      this.totalBytes += size - existingNode.size;
+      existingNode.size = size;
+      existingNode.version = version;
+      existingNode.sliding = sliding;
+      existingNode.insertedAt = insertedAt;
+      existingNode.refreshedAt = now;
+      existingNode.maxAgeMs = maxAgeMs;
+      this.untag(existingNode);
+      this.tag(existingNode, tags);
+      this.setExpiry(existingNode, Math.min(now + ttlMs, insertedAt + maxAgeMs));
+      if (!negative) {
+        this.recordChange(existingNode, oldValue === undefined ? "set" : "update", oldValue, value);
+      } else if (oldValue !== undefined) {
+        this.recordChange(existingNode, "delete", oldValue, undefined, "replaced");
+      }
 
-      this.moveToFront(existingNode);
+      this.policy.onAccess(existingNode);
+      this.evict();
+      this.flushEvictions();
       return;
     }
 
     // Create new node
+    const expiresAt = Math.min(now + ttlMs, now + maxAgeMs);
     const node = this.nodePool.get();
     node.reset(key, value, expiresAt);
-    this.cache.set(key, node);
-    this.addToFront(node);
+    node.value = this.hold(node, value, negative);
+    node.hash = hash;
+    node.ttlMs = ttlMs;
+    node.size = size;
+    node.negative = negative;
+    node.version = version;
+    node.sliding = sliding;
+    node.insertedAt = now;
+    node.refreshedAt = now;
+    node.maxAgeMs = maxAgeMs;
+    this.totalBytes += size;
+    this.cache.set(node);
+    this.policy.onInsert(node);
+    this.tag(node, tags);
+    this.indexPrefixes(node);
+    this.setExpiry(node, expiresAt);
+    if (!negative) {
+      this.recordChange(node, "set", undefined, value);
+    }
 
     // Evict if at capacity
-    if (this.cache.size > this.maxSize) {
-      this.evict();
+    this.evict();
+    this.flushEvictions();
+  }
+
+  // Resolves to undefined for a key known to have no value
+  async fetch(key: K, loader?: Loader<T, K>, options: FetchOptions = {}): Promise<T | undefined> {
+    this.validateKey(key);
+
+    const load = loader || this.loader;
+    const node = this.access(key, this.clock.now(), load);
+    if (node) {
+      // Negative entries resolve to undefined, as their loader did
+      const value = node.negative ? undefined : this.valueOf(node);
+      this.flushEvictions();
+      return value;
+    }
+
+    this.flushEvictions();
+    if (!load) {
+      throw new Error("fetch requires a loader");
+    }
+
+    const hash = this.hashKey(key);
+    const failed = this.failedLoads.get(key, hash);
+    if (failed) {
+      if (this.clock.now() < failed.expiresAt) {
+        throw failed.error;
+      }
+      this.failedLoads.delete(failed);
+    }
+
+    if (options.signal && options.signal.aborted) {
+      throw abortReason(options.signal);
     }
+
+    const inflight = this.inflight.get(key, hash) || this.startLoad(key, hash, load, options);
+    return this.awaitLoad(inflight, options.signal);
+  }
+
+  // Memoizes fn in this cache; the returned function has the same signature
+  wrap<A extends unknown[], R extends T | Promise<T>>(
+    fn: (...args: A) => R,
+    options: WrapOptions<A, K> = {}
+  ): Memoized<A, R, T, K> {
+    return wrapFunction(this, fn, options);
   }
 
-  delete(key: string): boolean {
-    const node = this.cache.get(key);
+  delete(key: K, options: DeleteOptions = {}): boolean {
+    const hash = this.hashKey(key);
+    const node = this.findNode(key, hash);
+
+    // A delete that was overtaken by a newer write leaves the newer value alone
+    if (node && options.version !== undefined && node.version > options.version) {
+      return false;
+    }
+
+    this.forgetLoads(key, hash);
     if (node) {
-      this.removeNode(node);
-      this.nodePool.put(node);
+      this.removeNode(node, "deleted");
+      this.counters.deletes++;
+      this.flushEvictions();
       return true;
     }
     return false;
   }
 
-  cleanExpired(now: number = Date.now()): number {
-    let cleanedCount = 0;
-    const expiredKeys: string[] = [];
+  // Removes every entry carrying the tag and returns how many were removed
+  invalidateTag(tag: string): number {
+    return this.invalidateTags([tag]);
+  }
+
+  invalidateTags(tags: readonly string[]): number {
+    let removed = 0;
+
+    for (const tag of tags) {
+      const nodes = this.tagIndex.get(tag);
+      if (!nodes) continue;
+
+      // Removing a node unlinks it from every tag set, so walk a copy
+      for (const node of [...nodes]) {
+        this.forgetLoads(node.key, node.hash);
+        this.removeNode(node, "invalidated");
+        removed++;
+      }
+    }
+
+    this.flushEvictions();
+    return removed;
+  }
+
+  // Reads several keys at one timestamp. Only keys with a value are in the result.
+  getMany(keys: Iterable<K>): Map<K, T> {
+    const results = new Map<K, T>();
+
+    this.batch((now) => {
+      for (const key of keys) {
+        const node = this.access(key, now, this.loader);
+        if (node && !node.negative) {
+          results.set(key, this.valueOf(node));
+        }
+      }
+    });
+    return results;
+  }
 
-    // Find all expired items
-    for (const [key, node] of this.cache.entries()) {
-      if (now >= node.expiresAt) {
-        expiredKeys.push(key);
+  // Writes several entries at one timestamp, evicting only once all of them are stored
+  setMany(entries: Iterable<readonly [K, T]>, options: SetOptions = {}): void {
+    this.batch(() => {
+      for (const [key, value] of entries) {
+        this.store(key, value, options, false);
       }
+    });
+  }
+
+  // Deletes several keys and returns how many existed
+  deleteMany(keys: Iterable<K>): number {
+    let deleted = 0;
+
+    this.batch(() => {
+      for (const key of keys) {
+        if (this.delete(key)) {
+          deleted++;
+        }
+      }
+    });
+    return deleted;
+  }
+
+  // Deletes every string key starting with prefix. With prefixSeparator set, prefixes
+  // ending in the separator are looked up in the index instead of scanning every key.
+  deleteByPrefix(prefix: string): number {
+    if (typeof prefix !== "string" || prefix === "") {
+      throw new Error("prefix must be a non-empty string");
     }
 
-    // Remove expired items
-    for (const key of expiredKeys) {
-      const node = this.cache.get(key);
-      if (node) {
-        this.removeFromList(node);
-        this.cache.delete(key);
-        this.nodePool.put(node);
-        cleanedCount++;
+    const separator = this.prefixSeparator;
+    if (separator && prefix.endsWith(separator)) {
+      const nodes = this.prefixIndex.get(prefix);
+      return nodes ? this.deleteNodes([...nodes]) : 0;
+    }
+
+    return this.deleteMatching((key) => typeof key === "string" && key.startsWith(prefix));
+  }
+
+  // Deletes every key the predicate accepts, scanning all entries
+  deleteMatching(predicate: (key: K) => boolean): number {
+    const matches: Node<T, K>[] = [];
+    for (const node of this.cache.values()) {
+      if (predicate(node.key)) {
+        matches.push(node);
       }
     }
+    return this.deleteNodes(matches);
+  }
+
+  cleanExpired(now: number = this.clock.now()): number {
+    let cleanedCount = 0;
+
+    // The heap yields entries soonest-to-expire first, so stop at the first live one
+    let node = this.expiryHeap.peek();
+    while (node && now >= node.expiresAt + this.staleRetentionMs) {
+      this.removeNode(node, "expired");
+      this.counters.sweeperRemovals++;
+      cleanedCount++;
+      node = this.expiryHeap.peek();
+    }
 
+    this.flushEvictions();
     return cleanedCount;
   }
 
+  sweep(now: number = this.clock.now()): SweepReport {
+    const report = this.sweepSlice(now);
+    this.flushEvictions();
+    return report;
+  }
+
+  private sweepSlice(now: number): SweepReport {
+    const startedAt = performance.now();
+    const deadline = startedAt + this.sweepTimeBudgetMs;
+    let removed = 0;
+
+    // Remove at most one batch of expired entries, yielding early once the time budget is spent
+    let node = this.expiryHeap.peek();
+    while (node && now >= node.expiresAt + this.staleRetentionMs && removed < this.sweepBatchSize) {
+      this.removeNode(node, "expired");
+      this.counters.sweeperRemovals++;
+      removed++;
+
+      if (performance.now() >= deadline) break;
+      node = this.expiryHeap.peek();
+    }
+
+    const next = this.expiryHeap.peek();
+    const done = !next || now < next.expiresAt + this.staleRetentionMs;
+
+    this.sweepRemoved += removed;
+    this.sweepSlices++;
+
+    const report: SweepReport = {
+      removed,
+      totalRemoved: this.sweepRemoved,
+      slices: this.sweepSlices,
+      durationMs: performance.now() - startedAt,
+      done,
+    };
+
+    if (done) {
+      this.sweepRemoved = 0;
+      this.sweepSlices = 0;
+    }
+
+    if (this.onSweep) {
+      this.onSweep(report);
+    }
+
+    return report;
+  }
+
+  private access(key: K, now: number, loader: Loader<T, K> | null): Node<T, K> | null {
+    const node = this.findNode(key);
+    if (!node) {
+      this.counters.misses++;
+      return null;
+    }
+
+    // O(1) lazy expiration check, serving stale values while they are still within a stale window
+    if (now >= node.expiresAt) {
+      if (!this.isReadable(node, now)) {
+        // Within staleIfErrorMs the entry is a miss but is kept, so a failed load can fall back to it
+        if (node.negative || now - node.expiresAt >= this.staleIfErrorMs) {
+          this.removeNode(node, "expired");
+          this.counters.expiredOnRead++;
+        }
+        this.counters.misses++;
+        return null;
+      }
+
+      if (loader && now - node.expiresAt < this.staleWhileRevalidateMs) {
+        this.revalidate(node, loader);
+      }
+    } else if (node.sliding && !node.negative) {
+      // Every read of a fresh sliding entry restarts its idle timeout, up to its max age
+      node.refreshedAt = now;
+      this.setExpiry(node, Math.min(now + node.ttlMs, node.insertedAt + node.maxAgeMs));
+    }
+
+    // Periodic cleanup if needed
+    this.maybeCleanup();
+
+    // Let the policy record the access (moves it to the front for LRU)
+    this.policy.onAccess(node);
+
+    if (node.negative) {
+      this.counters.negativeHits++;
+    } else {
+      this.counters.hits++;
+    }
+    return node;
+  }
+
+  private isReadable(node: Node<T, K>, now: number): boolean {
+    if (now < node.expiresAt) return true;
+    if (node.negative) return false;
+
+    const staleForMs = now - node.expiresAt;
+    return staleForMs < this.staleWhileRevalidateMs || (node.refreshFailed && staleForMs < this.staleIfErrorMs);
+  }
+
+  // Looks an entry up without touching recency, stats or expired entries
+  private inspect(key: K): Node<T, K> | null {
+    const node = this.findNode(key);
+    return node && !node.negative && this.isReadable(node, this.clock.now()) ? node : null;
+  }
+
+  private revalidate(node: Node<T, K>, loader: Loader<T, K>): void {
+    const key = node.key;
+    const hash = node.hash;
+    if (this.inflight.get(key, hash)) return;
+
+    // Respect a remembered rejection rather than retrying the backend on every read
+    const failed = this.failedLoads.get(key, hash);
+    if (failed && this.clock.now() < failed.expiresAt) return;
+
+    this.startLoad(key, hash, loader, {
+      ttlMs: node.ttlMs,
+      expiration: node.sliding ? "sliding" : "absolute",
+      maxAgeMs: node.maxAgeMs,
+      tags: node.tags || undefined,
+    }, true);
+  }
+
+  // A background load has no caller to throw to, so errors from onEvict or watchers while
+  // storing its value are reported like those of background cleanup
+  private startLoad(
+    key: K,
+    hash: unknown,
+    loader: Loader<T, K>,
+    options: SetOptions,
+    background: boolean = false
+  ): InflightLoad<T, K> {
+    const controller = new AbortController();
+    const store = (value: T | undefined) => {
+      if (value === undefined) {
+        this.setNegative(key, { tags: options.tags });
+        return;
+      }
+      this.set(key, value, {
+        ttlMs: options.ttlMs,
+        expiration: options.expiration,
+        maxAgeMs: options.maxAgeMs,
+        size: options.size,
+        tags: options.tags,
+        version: options.version,
+      });
+    };
+
+    // Only the load still registered for the key may write its outcome back
+    const promise = Promise.resolve()
+      .then(() => loader(key, { signal: controller.signal }))
+      .then(
+        (value) => {
+          if (this.inflight.delete(inflight)) {
+            if (background) {
+              this.runInBackground(() => store(value));
+            } else {
+              store(value);
+            }
+          }
+          return value;
+        },
+        (error) => {
+          if (this.inflight.delete(inflight)) {
+            if (this.rejectionTtlMs > 0) {
+              this.failedLoads.set({ key, hash, error, expiresAt: this.clock.now() + this.rejectionTtlMs });
+            }
+
+            // A stale value may keep being served for staleIfErrorMs after a failed load,
+            // including to the callers waiting on this one
+            const node = this.findNode(key, hash);
+            if (node) {
+              node.refreshFailed = true;
+              const now = this.clock.now();
+              if (now >= node.expiresAt && !node.negative && this.isReadable(node, now)) {
+                return this.valueOf(node);
+              }
+            }
+          }
+          throw error;
+        }
+      );
+
+    // Callers observe the outcome through awaitLoad, so the shared promise is never left unhandled
+    promise.catch(() => undefined);
+
+    const inflight: InflightLoad<T, K> = { key, hash, promise, controller, waiters: 0 };
+    this.inflight.set(inflight);
+    return inflight;
+  }
+
+  private awaitLoad(inflight: InflightLoad<T, K>, signal?: AbortSignal): Promise<T | undefined> {
+    inflight.waiters++;
+    if (!signal) {
+      return inflight.promise;
+    }
+
+    return new Promise<T | undefined>((resolve, reject) => {
+      const onAbort = () => {
+        inflight.waiters--;
+
+        // Cancel the shared load once nobody is waiting for it anymore
+        if (inflight.waiters === 0) {
+          this.inflight.delete(inflight);
+          inflight.controller.abort(abortReason(signal));
+        }
+
+        reject(abortReason(signal));
+      };
+
+      signal.addEventListener("abort", onAbort, { once: true });
+      inflight.promise.then(
+        (value) => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal.removeEventListener("abort", onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
   private maybeCleanup(): void {
-    const now = Date.now();
+    if (this.batchDepth > 0) return;
+
+    const now = this.clock.now();
     if (now - this.lastCleanup > this.cleanupInterval) {
-      this.cleanExpired(now);
+      this.sweepSlice(now);
       this.lastCleanup = now;
     }
   }
 
+  private runSweep(fromInterval: boolean): void {
+    this.sweepTimer = null;
+    const now = this.clock.now();
+    const report = this.sweep(now);
+    this.lastCleanup = now;
+
+    // Continue with the next slice on a later tick so other work can run in between
+    if (!report.done) {
+      this.scheduleSweep(0);
+      return;
+    }
+
+    // If something expires before the next interval, sweep again once it does
+    const next = this.expiryHeap.peek();
+    const nextRemoval = next ? next.expiresAt + this.staleRetentionMs - now : Infinity;
+    if (fromInterval && nextRemoval < this.cleanupInterval) {
+      this.scheduleSweep(nextRemoval);
+    }
+  }
+
+  private scheduleSweep(delayMs: number): void {
+    this.sweepTimer = this.scheduler.setTimeout(() => this.runInBackground(() => this.runSweep(false)), delayMs);
+  }
+
   private startBackgroundCleanup(): void {
-    if (this.cleanupTimer) return;
+    if (this.cleanupTimer !== null) return;
 
-    this.cleanupTimer = setInterval(() => {
-      this.cleanExpired();
-      this.lastCleanup = Date.now();
+    this.cleanupTimer = this.scheduler.setInterval(() => {
+      if (this.sweepTimer === null) {
+        this.runInBackground(() => this.runSweep(true));
+      }
     }, this.cleanupInterval);
+  }
 
-    // Don't prevent Node.js from exiting
-    if (this.cleanupTimer.unref) {
-      this.cleanupTimer.unref();
+  private runInBackground(run: () => void): void {
+    try {
+      run();
+    } catch (error) {
+      if (this.onCleanupError) {
+        this.onCleanupError(error);
+      } else {
+        process.emitWarning(error instanceof Error ? error : String(error));
+      }
     }
   }
 
   private stopBackgroundCleanup(): void {
-    if (this.cleanupTimer) {
-      clearInterval(this.cleanupTimer);
-      clearTimeout(this.cleanupTimer);
+    if (this.cleanupTimer !== null) {
+      this.scheduler.clearInterval(this.cleanupTimer);
       this.cleanupTimer = null;
     }
+
+    if (this.sweepTimer !== null) {
+      this.scheduler.clearTimeout(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  private changeFeed(): ChangeFeed<T, K> {
+    if (!this.changes) {
+      this.changes = new ChangeFeed<T, K>((a, b) => this.sameKey(a, b));
+    }
+    return this.changes;
+  }
+
+  private validateKey(key: K): void {
+    if (key === undefined || key === null) {
+      throw new Error("key must not be null or undefined");
+    }
+
+    if ((key as unknown) === "") {
+      throw new Error("key must be a non-empty string");
+    }
+  }
+
+  private batch(run: (now: number) => void): void {
+    if (this.batchDepth === 0) {
+      this.batchNow = this.clock.now();
+    }
+    this.batchDepth++;
+
+    try {
+      run(this.batchNow);
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0) {
+        this.maybeCleanup();
+        this.evict();
+        this.flushEvictions();
+      }
+    }
+  }
+
+  private deleteNodes(nodes: Node<T, K>[]): number {
+    for (const node of nodes) {
+      this.forgetLoads(node.key, node.hash);
+      this.removeNode(node, "deleted");
+      this.counters.deletes++;
+    }
+
+    this.flushEvictions();
+    return nodes.length;
+  }
+
+  // Calls fn with every prefix of a string key that ends in the separator
+  private forEachPrefix(key: K, fn: (prefix: string) => void): void {
+    const separator = this.prefixSeparator;
+    if (!separator || typeof key !== "string") return;
+
+    for (let end = key.indexOf(separator); end >= 0; end = key.indexOf(separator, end + 1)) {
+      fn(key.slice(0, end + separator.length));
+    }
+  }
+
+  private indexPrefixes(node: Node<T, K>): void {
+    this.forEachPrefix(node.key, (prefix) => {
+      let nodes = this.prefixIndex.get(prefix);
+      if (!nodes) {
+        nodes = new Set();
+        this.prefixIndex.set(prefix, nodes);
+      }
+      nodes.add(node);
+    });
+  }
+
+  private unindexPrefixes(node: Node<T, K>): void {
+    this.forEachPrefix(node.key, (prefix) => {
+      const nodes = this.prefixIndex.get(prefix) as Set<Node<T, K>>;
+      nodes.delete(node);
+      if (nodes.size === 0) {
+        this.prefixIndex.delete(prefix);
+      }
+    });
+  }
+
+  private validateTags(tags: readonly string[] | undefined): readonly string[] | null {
+    if (tags === undefined) {
+      return null;
+    }
+
+    if (!Array.isArray(tags) || !tags.every((tag) => typeof tag === "string")) {
+      throw new Error("tags must be an array of strings");
+    }
+    return tags.length > 0 ? [...new Set(tags)] : null;
+  }
+
+  private tag(node: Node<T, K>, tags: readonly string[] | null): void {
+    node.tags = tags;
+    if (!tags) return;
+
+    for (const tag of tags) {
+      let nodes = this.tagIndex.get(tag);
+      if (!nodes) {
+        nodes = new Set();
+        this.tagIndex.set(tag, nodes);
+      }
+      nodes.add(node);
+    }
+  }
+
+  private untag(node: Node<T, K>): void {
+    if (!node.tags) return;
+
+    for (const tag of node.tags) {
+      const nodes = this.tagIndex.get(tag) as Set<Node<T, K>>;
+      nodes.delete(node);
+      if (nodes.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    }
+    node.tags = null;
+  }
+
+  private hashKey(key: K): unknown {
+    return this.keyHash ? this.keyHash(key) : key;
+  }
+
+  // Only called for keys that share a hash
+  private sameKey(a: K, b: K): boolean {
+    return this.keyEquals ? this.keyEquals(a, b) : true;
+  }
+
+  private findNode(key: K, hash: unknown = this.hashKey(key)): Node<T, K> | undefined {
+    const node = this.cache.get(key, hash);
+    // The finalizer may not have run yet for a value that was already collected
+    if (node && this.isCollected(node)) {
+      this.removeNode(node, null);
+      return undefined;
+    }
+    return node;
+  }
+
+  // Wraps the value in a WeakRef in weakValues mode and registers it for cleanup once collected
+  private hold(node: Node<T, K>, value: T, negative: boolean): T {
+    if (!this.finalizers || negative) return value;
+
+    this.finalizers.register(value as unknown as object, { node, generation: node.generation }, node);
+    return new WeakRef(value as unknown as object) as unknown as T;
+  }
+
+  private release(node: Node<T, K>): void {
+    if (this.finalizers) {
+      this.finalizers.unregister(node);
+    }
+  }
+
+  private valueOf(node: Node<T, K>): T {
+    if (!this.weakValues || node.negative) return node.value as T;
+    return (node.value as unknown as WeakRef<object>).deref() as unknown as T;
+  }
+
+  private isCollected(node: Node<T, K>): boolean {
+    return this.weakValues && !node.negative && this.valueOf(node) === undefined;
+  }
+
+  // Forgets in-flight and failed loads for the key, so their outcome cannot overwrite a newer write
+  private forgetLoads(key: K, hash: unknown): void {
+    const inflight = this.inflight.get(key, hash);
+    if (inflight) {
+      this.inflight.delete(inflight);
+    }
+
+    const failed = this.failedLoads.get(key, hash);
+    if (failed) {
+      this.failedLoads.delete(failed);
+    }
   }
 
   private evict(): void {
-    // Simple LRU eviction - remove the least recently used item
-    if (this.cache.size > this.maxSize && this.tail) {
-      const nodeToEvict = this.tail;
-      this.removeFromList(nodeToEvict);
-      this.cache.delete(nodeToEvict.key);
-      this.nodePool.put(nodeToEvict);
+    if (this.batchDepth > 0) return;
+
+    // Remove the policy's victims (least recently used items for LRU) until both limits are met
+    while (this.cache.size > this.maxSize || this.totalBytes > this.maxBytes) {
+      const victim = this.policy.selectVictim();
+      if (!victim) break;
+
+      this.removeNode(victim, "lru");
+      this.counters.evictions++;
+    }
+  }
+
+  private entrySize(key: K, value: T, options: SetOptions): number {
+    if (this.maxBytes === Infinity && options.size === undefined) {
+      return 0;
+    }
+
+    let size: number;
+    if (options.size !== undefined) {
+      size = options.size;
+    } else if (this.sizeCalculation) {
+      size = this.sizeCalculation(value, key);
+    } else {
+      throw new Error("size or sizeCalculation is required when maxBytes is set");
+    }
+
+    if (!Number.isFinite(size) || size < 0) {
+      throw new Error("size must be a non-negative finite number");
+    }
+
+    if (size > this.maxBytes) {
+      throw new Error("entry size exceeds maxBytes");
     }
+
+    return size;
   }
 
-  private removeNode(node: Node<T>): void {
-    this.removeFromList(node);
-    this.cache.delete(node.key);
+  // A null reason removes an entry whose weakly held value is gone, counting it as collected
+  // without reporting it to onEvict or watchers
+  private removeNode(node: Node<T, K>, reason: EvictionReason | null): void {
+    if (reason === null) {
+      this.counters.collected++;
+    }
+    if (this.onEvict && reason !== null) {
+      this.queueEviction(node, reason);
+    }
+    if (reason !== null && !node.negative) {
+      this.recordChange(node, changeTypes[reason], this.valueOf(node), undefined, reason);
+    }
+
+    this.release(node);
+    this.totalBytes -= node.size;
+    this.untag(node);
+    this.unindexPrefixes(node);
+    this.policy.onRemove(node);
+    this.expiryHeap.remove(node);
+    this.cache.delete(node);
     this.nodePool.put(node);
   }
 
-  private moveToFront(node: Node<T>): void {
-    this.removeFromList(node);
-    this.addToFront(node);
+  private queueEviction(node: Node<T, K>, reason: EvictionReason): void {
+    // Negative entries hold no value to release
+    if (node.negative) return;
+
+    const value = this.valueOf(node);
+    // A collected value is gone, so there is nothing left to hand over
+    if (value === undefined && this.weakValues) return;
+
+    this.pendingEvictions.push({ key: node.key, value, reason, expiresAt: node.expiresAt });
+  }
+
+  private flushEvictions(): void {
+    if (this.batchDepth > 0) return;
+
+    // Callbacks may touch the cache again, so drain in rounds until nothing new was queued.
+    // A throwing callback does not keep the others from running; the first error is rethrown.
+    let failure: { error: unknown } | null = null;
+    const onEvict = this.onEvict;
+    while (onEvict && this.pendingEvictions.length > 0) {
+      const pending = this.pendingEvictions;
+      this.pendingEvictions = [];
+
+      for (const eviction of pending) {
+        try {
+          onEvict(eviction.key, eviction.value, eviction.reason, eviction.expiresAt);
+        } catch (error) {
+          failure = failure || { error };
+        }
+      }
+    }
+
+    if (this.changes) {
+      try {
+        this.changes.flush();
+      } catch (error) {
+        failure = failure || { error };
+      }
+    }
+
+    if (failure) {
+      throw failure.error;
+    }
   }
 
-  private addToFront(node: Node<T>): void {
-    node.next = this.head;
-    node.prev = null;
+  // Queues a change for the key's watchers, delivered along with the eviction callbacks
+  private recordChange(
+    node: Node<T, K>,
+    type: ChangeType,
+    oldValue: T | undefined,
+    newValue: T | undefined,
+    reason?: EvictionReason
+  ): void {
+    if (!this.changes || !this.changes.watches(node.hash)) return;
 
-    if (this.head) {
-      this.head.prev = node;
+    const event: ChangeEvent<T, K> = { type, key: node.key, oldValue, newValue };
+    if (reason !== undefined) {
+      event.reason = reason;
     }
-    this.head = node;
+    this.changes.queue(event, node.hash);
+  }
+
+  // Moves entries stored with the previous default TTL onto the current one, counting from their
+  // last write and still capped by their maxAgeMs
+  private rebaseTtl(previousTtlMs: number): void {
+    for (const node of this.cache.values()) {
+      if (node.negative || node.ttlMs !== previousTtlMs) continue;
 
-    if (!this.tail) {
-      this.tail = node;
+      node.ttlMs = this.ttlMs;
+      this.setExpiry(node, Math.min(node.refreshedAt + this.ttlMs, node.insertedAt + node.maxAgeMs));
     }
   }
 
-  private removeFromList(node: Node<T>): void {
-    if (node.prev) {
-      node.prev.next = node.next;
+  private setExpiry(node: Node<T, K>, expiresAt: number): void {
+    node.expiresAt = expiresAt;
+
+    // Entries that never expire stay out of the heap entirely
+    if (expiresAt === Infinity) {
+      this.expiryHeap.remove(node);
+    } else if (node.heapIndex < 0) {
+      this.expiryHeap.push(node);
     } else {
-      this.head = node.next;
+      this.expiryHeap.update(node);
     }
+  }
 
-    if (node.next) {
-      node.next.prev = node.prev;
-    } else {
-      this.tail = node.prev;
+  private *walk(reverse: boolean): IterableIterator<Node<T, K>> {
+    // Walk a snapshot of the list so entries can be removed mid-iteration, even though
+    // removed nodes are reset and reused by the pool
+    const nodes: Node<T, K>[] = [];
+    const hashes: unknown[] = [];
+    for (const node of this.policy.nodes(reverse)) {
+      nodes.push(node);
+      hashes.push(node.hash);
     }
 
-    node.prev = null;
-    node.next = null;
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      if (node.hash !== hashes[i] || !this.cache.has(node)) continue;
+      if (node.negative || !this.isReadable(node, this.clock.now())) continue;
+      if (this.isCollected(node)) {
+        this.removeNode(node, null);
+        continue;
+      }
+
+      yield node;
+    }
   }
 
+  // With weakValues, still counts entries whose value was collected but not yet finalized
   size(): number {
     return this.cache.size;
   }
 
+  *keys(options: IterationOptions = {}): IterableIterator<K> {
+    for (const node of this.walk(options.reverse === true)) {
+      yield node.key;
+    }
+  }
+
+  *values(options: IterationOptions = {}): IterableIterator<T> {
+    for (const node of this.walk(options.reverse === true)) {
+      yield this.valueOf(node);
+    }
+  }
+
+  *entries(options: IterationOptions = {}): IterableIterator<[K, T]> {
+    for (const node of this.walk(options.reverse === true)) {
+      yield [node.key, this.valueOf(node)];
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, T]> {
+    return this.entries();
+  }
+
+  forEach(callback: (value: T, key: K, cache: this) => void, options: IterationOptions = {}): void {
+    for (const node of this.walk(options.reverse === true)) {
+      callback(this.valueOf(node), node.key, this);
+    }
+  }
+
+  bytes(): number {
+    return this.totalBytes;
+  }
+
+  dump<E = T>(options: DumpOptions<T, E> = {}): CacheSnapshot<E, K> {
+    const codec = options.codec || identityCodec<T, E>();
+    const entries: SnapshotEntry<E, K>[] = [];
+
+    for (const node of this.walk(false)) {
+      const entry: SnapshotEntry<E, K> = {
+        key: node.key,
+        value: codec.encode(this.valueOf(node)),
+        expiresAt: node.expiresAt === Infinity ? null : node.expiresAt,
+      };
+      if (node.size > 0) {
+        entry.size = node.size;
+      }
+      if (node.tags) {
+        entry.tags = [...node.tags];
+      }
+      entries.push(entry);
+    }
+
+    return { version: 1, createdAt: this.clock.now(), entries };
+  }
+
+  load<E = T>(snapshot: CacheSnapshot<E, K>, options: LoadOptions<T, E> = {}): number {
+    if (!snapshot || snapshot.version !== 1 || !Array.isArray(snapshot.entries)) {
+      throw new Error("unsupported snapshot format");
+    }
+
+    const codec = options.codec || identityCodec<T, E>();
+    const now = this.clock.now();
+    let loaded = 0;
+
+    // Insert least-recently used first so the most-recently used entry ends up at the front
+    for (let i = snapshot.entries.length - 1; i >= 0; i--) {
+      const entry = snapshot.entries[i];
+
+      let expiresAt = entry.expiresAt === null ? Infinity : entry.expiresAt;
+      if (options.useRemainingTtl) {
+        expiresAt = now + (expiresAt - snapshot.createdAt);
+      }
+      if (now >= expiresAt) continue;
+
+      this.set(entry.key, codec.decode(entry.value), {
+        ttlMs: expiresAt - now,
+        size: entry.size,
+        tags: entry.tags,
+      });
+      loaded++;
+    }
+
+    return loaded;
+  }
+
+  // Subscribes to changes of one key: an async iterator without a listener, or an
+  // unsubscribe function with one
+  watch(key: K, options?: WatchOptions): ChangeStream<T, K>;
+  watch(key: K, listener: ChangeListener<T, K>): () => void;
+  watch(key: K, listenerOrOptions?: ChangeListener<T, K> | WatchOptions): ChangeStream<T, K> | (() => void) {
+    this.validateKey(key);
+    return this.changeFeed().subscribe(key, this.hashKey(key), listenerOrOptions);
+  }
+
+  // Subscribes to changes of every key, like watch
+  watchAll(options?: WatchOptions): ChangeStream<T, K>;
+  watchAll(listener: ChangeListener<T, K>): () => void;
+  watchAll(listenerOrOptions?: ChangeListener<T, K> | WatchOptions): ChangeStream<T, K> | (() => void) {
+    return this.changeFeed().subscribe(null, null, listenerOrOptions);
+  }
+
+  // Changes limits and timings on a live cache, validated like the constructor's options.
+  // Options left out keep their current value.
+  reconfigure(options: ReconfigureOptions): void {
+    validateOptions(options, true);
+
+    if (options.ttlMs !== undefined) {
+      const previousTtlMs = this.ttlMs;
+      this.ttlMs = options.ttlMs;
+      if (this.negativeTtlFollowsTtl) {
+        this.negativeTtlMs = this.ttlMs;
+      }
+      if (options.rebaseTtl && previousTtlMs !== this.ttlMs) {
+        this.rebaseTtl(previousTtlMs);
+      }
+    }
+
+    if (options.rejectionTtlMs !== undefined) {
+      this.rejectionTtlMs = options.rejectionTtlMs;
+    }
+    if (options.staleWhileRevalidateMs !== undefined) {
+      this.staleWhileRevalidateMs = options.staleWhileRevalidateMs;
+    }
+    if (options.staleIfErrorMs !== undefined) {
+      this.staleIfErrorMs = options.staleIfErrorMs;
+    }
+    this.staleRetentionMs = Math.max(this.staleWhileRevalidateMs, this.staleIfErrorMs);
+
+    if (options.sweepBatchSize !== undefined) {
+      this.sweepBatchSize = Math.floor(options.sweepBatchSize);
+    }
+    if (options.sweepTimeBudgetMs !== undefined) {
+      this.sweepTimeBudgetMs = options.sweepTimeBudgetMs;
+    }
+
+    // Restart a running cleanup timer so the new interval takes effect right away
+    if (options.cleanupInterval !== undefined) {
+      this.cleanupInterval = options.cleanupInterval;
+      if (this.cleanupTimer !== null) {
+        this.scheduler.clearInterval(this.cleanupTimer);
+        this.cleanupTimer = null;
+        this.startBackgroundCleanup();
+      }
+    }
+
+    // A smaller cache evicts down to its new limit immediately
+    if (options.maxSize !== undefined) {
+      this.maxSize = Math.floor(options.maxSize);
+      if (this.policy.resize) {
+        this.policy.resize(this.maxSize);
+      }
+      this.evict();
+      this.flushEvictions();
+    }
+  }
+
+  setMaxSize(maxSize: number): void {
+    this.reconfigure({ maxSize });
+  }
+
+  setDefaultTtl(ttlMs: number, options: DefaultTtlOptions = {}): void {
+    this.reconfigure({ ttlMs, rebaseTtl: options.rebase });
+  }
+
+  setCleanupInterval(cleanupInterval: number): void {
+    this.reconfigure({ cleanupInterval });
+  }
+
+  stats(): CacheStats {
+    const reads = this.counters.hits + this.counters.misses;
+
+    return {
+      ...this.counters,
+      hitRatio: reads > 0 ? this.counters.hits / reads : 0,
+      size: this.cache.size,
+    };
+  }
+
   clear(): void {
     // Put all nodes back into the node pool
     for (const node of this.cache.values()) {
+      if (this.onEvict) {
+        this.queueEviction(node, "cleared");
+      }
+      if (!node.negative) {
+        this.recordChange(node, "delete", this.valueOf(node), undefined, "cleared");
+      }
+      this.release(node);
       this.nodePool.put(node);
     }
 
     this.cache.clear();
-    this.head = null;
-    this.tail = null;
-    this.lastCleanup = Date.now();
+    this.expiryHeap.clear();
+    this.inflight.clear();
+    this.failedLoads.clear();
+    this.tagIndex.clear();
+    this.prefixIndex.clear();
+    this.totalBytes = 0;
+    this.policy.clear();
+    this.lastCleanup = this.clock.now();
+    this.sweepRemoved = 0;
+    this.sweepSlices = 0;
     this.stopBackgroundCleanup();
     if (this.autoCleanup) {
       this.startBackgroundCleanup();
     }
+
+    this.flushEvictions();
   }
 
   destroy(): void {
-    this.stopBackgroundCleanup();
-    this.clear();
+    // clear restarts background cleanup, so stop it afterwards, even if a callback threw
+    try {
+      this.clear();
+    } finally {
+      this.stopBackgroundCleanup();
+      if (this.changes) {
+        this.changes.close();
+      }
+    }
   }
 }
@@ -0,0 +1,205 @@
+import { randomUUID } from "crypto";
+import cluster from "cluster";
+import { BroadcastChannel } from "worker_threads";
+import type { Cache, DeleteOptions } from "./index.js";
+
+// Keys travel between threads and processes, so they must survive structured
+// cloning (BroadcastChannel) or JSON (cluster IPC).
+export type InvalidationMessage<K = string> =
+  | { type: "delete"; origin: string; key: K; version?: number }
+  | { type: "clear"; origin: string }
+  | { type: "tags"; origin: string; tags: string[] };
+
+export interface InvalidationTransport<K = string> {
+  publish(message: InvalidationMessage<K>): void;
+  // Returns a function that stops delivering messages to the listener
+  subscribe(listener: (message: InvalidationMessage<K>) => void): () => void;
+  close(): void;
+}
+
+export interface InvalidationBusOptions {
+  // Identifies this bus in the messages it sends; defaults to a random UUID
+  origin?: string;
+  // Messages from peers have no caller to throw to, so errors from onEvict or watchers
+  // while applying them are reported here; defaults to a process warning
+  onError?: (error: unknown) => void;
+}
+
+// Applies deletes, clears and tag invalidations to the local cache and
+// broadcasts them to the caches of peer threads or processes. Messages from
+// peers are applied locally without being broadcast again.
+export class InvalidationBus<T, K = string> {
+  readonly origin: string;
+  private cache: Cache<T, K>;
+  private transport: InvalidationTransport<K>;
+  private unsubscribe: (() => void) | null;
+  private onError: ((error: unknown) => void) | null;
+
+  constructor(cache: Cache<T, K>, transport: InvalidationTransport<K>, options: InvalidationBusOptions = {}) {
+    this.cache = cache;
+    this.transport = transport;
+    this.origin = options.origin || randomUUID();
+    this.onError = options.onError || null;
+    this.unsubscribe = transport.subscribe((message) => this.receive(message));
+  }
+
+  delete(key: K, options: DeleteOptions = {}): boolean {
+    const deleted = this.cache.delete(key, options);
+
+    const message: InvalidationMessage<K> = { type: "delete", origin: this.origin, key };
+    if (options.version !== undefined) {
+      message.version = options.version;
+    }
+    this.transport.publish(message);
+    return deleted;
+  }
+
+  invalidateTag(tag: string): number {
+    return this.invalidateTags([tag]);
+  }
+
+  invalidateTags(tags: readonly string[]): number {
+    const removed = this.cache.invalidateTags(tags);
+    this.transport.publish({ type: "tags", origin: this.origin, tags: [...tags] });
+    return removed;
+  }
+
+  clear(): void {
+    this.cache.clear();
+    this.transport.publish({ type: "clear", origin: this.origin });
+  }
+
+  // Stops listening to peers and closes the transport
+  close(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    this.transport.close();
+  }
+
+  private receive(message: InvalidationMessage<K>): void {
+    // Our own messages may be echoed back by the transport
+    if (!message || message.origin === this.origin) return;
+
+    try {
+      switch (message.type) {
+        case "delete":
+          this.cache.delete(message.key, { version: message.version });
+          break;
+        case "tags":
+          this.cache.invalidateTags(message.tags);
+          break;
+        case "clear":
+          this.cache.clear();
+          break;
+      }
+    } catch (error) {
+      if (this.onError) {
+        this.onError(error);
+      } else {
+        process.emitWarning(error instanceof Error ? error : String(error));
+      }
+    }
+  }
+}
+
+// Reaches every thread of the process that opened a channel with the same name
+export class BroadcastChannelTransport<K = string> implements InvalidationTransport<K> {
+  private channel: BroadcastChannel;
+
+  constructor(name: string = "hybrid-lru") {
+    this.channel = new BroadcastChannel(name);
+    // An open channel must not keep the process alive on its own
+    this.channel.unref();
+  }
+
+  publish(message: InvalidationMessage<K>): void {
+    this.channel.postMessage(message);
+  }
+
+  subscribe(listener: (message: InvalidationMessage<K>) => void): () => void {
+    const handler = (event: unknown) => listener((event as { data: InvalidationMessage<K> }).data);
+    this.channel.addEventListener("message", handler);
+    return () => this.channel.removeEventListener("message", handler);
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
+
+interface ClusterEnvelope<K> {
+  hybridLruChannel: string;
+  message: InvalidationMessage<K>;
+}
+
+function isEnvelope<K>(value: unknown, channel: string): value is ClusterEnvelope<K> {
+  return typeof value === "object" && value !== null &&
+    (value as ClusterEnvelope<K>).hybridLruChannel === channel;
+}
+
+// Uses the cluster IPC channel. Workers send to the primary, which relays each
+// message to every other worker, so the primary must create a transport too.
+export class ClusterTransport<K = string> implements InvalidationTransport<K> {
+  private channel: string;
+  private listeners: Set<(message: InvalidationMessage<K>) => void>;
+  private detach: () => void;
+
+  constructor(channel: string = "hybrid-lru") {
+    this.channel = channel;
+    this.listeners = new Set();
+
+    if (cluster.isPrimary) {
+      const relay = (worker: { id: number }, value: unknown) => {
+        if (!isEnvelope<K>(value, this.channel)) return;
+        this.sendToWorkers(value, worker.id);
+        this.deliver(value.message);
+      };
+      cluster.on("message", relay);
+      this.detach = () => cluster.off("message", relay);
+    } else {
+      const receive = (value: unknown) => {
+        if (isEnvelope<K>(value, this.channel)) {
+          this.deliver(value.message);
+        }
+      };
+      process.on("message", receive);
+      this.detach = () => process.off("message", receive);
+    }
+  }
+
+  publish(message: InvalidationMessage<K>): void {
+    const envelope: ClusterEnvelope<K> = { hybridLruChannel: this.channel, message };
+
+    if (cluster.isPrimary) {
+      this.sendToWorkers(envelope, null);
+    } else if (process.send) {
+      process.send(envelope);
+    }
+  }
+
+  subscribe(listener: (message: InvalidationMessage<K>) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  close(): void {
+    this.listeners.clear();
+    this.detach();
+  }
+
+  private deliver(message: InvalidationMessage<K>): void {
+    for (const listener of this.listeners) {
+      listener(message);
+    }
+  }
+
+  private sendToWorkers(envelope: ClusterEnvelope<K>, exceptId: number | null): void {
+    for (const worker of Object.values(cluster.workers || {})) {
+      if (worker && worker.id !== exceptId && worker.isConnected()) {
+        worker.send(envelope);
+      }
+    }
+  }
+}
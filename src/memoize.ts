@@ -0,0 +1,141 @@
+import { Cache } from "./index.js";
+import type { CacheOptions, SetOptions } from "./index.js";
+
+export interface WrapOptions<A extends unknown[], K = string> extends SetOptions {
+  // Derives the cache key from the arguments; defaults to a stable serialization of them
+  key?: (...args: A) => K;
+}
+
+export interface MemoizeOptions<A extends unknown[], T, K = string>
+  extends WrapOptions<A, K>, Omit<CacheOptions<T, K>, "maxSize"> {
+  // Defaults to 1000
+  maxSize?: number;
+}
+
+export type Memoized<A extends unknown[], R, T = Awaited<R>, K = string> = ((...args: A) => R) & {
+  // Forgets the result cached for these arguments
+  invalidate(...args: A): boolean;
+  readonly cache: Cache<T, K>;
+};
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (typeof value === "object" || typeof value === "function") && value !== null &&
+    typeof (value as PromiseLike<unknown>).then === "function";
+}
+
+function serialize(value: unknown, ancestors: Set<object>): string {
+  switch (typeof value) {
+    case "string":
+      return JSON.stringify(value);
+    case "number":
+      return Object.is(value, -0) ? "-0" : String(value);
+    case "bigint":
+      return `${value}n`;
+    case "boolean":
+    case "undefined":
+      return String(value);
+    case "object":
+      break;
+    default:
+      throw new Error("cannot derive a key from a function or symbol argument; pass a key option");
+  }
+
+  if (value === null) {
+    return "null";
+  }
+
+  if (value instanceof Date) {
+    return `Date(${value.getTime()})`;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  if (!Array.isArray(value) && prototype !== Object.prototype && prototype !== null) {
+    throw new Error("cannot derive a key from a class instance argument; pass a key option");
+  }
+
+  if (ancestors.has(value)) {
+    throw new Error("cannot derive a key from a circular argument; pass a key option");
+  }
+  ancestors.add(value);
+
+  let serialized: string;
+  if (Array.isArray(value)) {
+    serialized = `[${value.map((item) => serialize(item, ancestors)).join(",")}]`;
+  } else {
+    // Sorted so that { a, b } and { b, a } share a key
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record).sort().map((name) => `${JSON.stringify(name)}:${serialize(record[name], ancestors)}`);
+    serialized = `{${fields.join(",")}}`;
+  }
+
+  ancestors.delete(value);
+  return serialized;
+}
+
+// Stable key for primitive, array, Date and plain-object arguments. Strings and
+// numbers never collide, and object keys are sorted.
+export function argumentsKey(...args: unknown[]): string {
+  return serialize(args, new Set());
+}
+
+// Backs Cache.wrap. Functions declared async are known to be asynchronous up
+// front; any other function is treated as asynchronous once it returns a promise.
+export function wrapFunction<A extends unknown[], R, T, K>(
+  cache: Cache<T, K>,
+  fn: (...args: A) => R,
+  options: WrapOptions<A, K> = {}
+): Memoized<A, R, T, K> {
+  if (typeof fn !== "function") {
+    throw new Error("fn must be a function");
+  }
+
+  const { key, ...setOptions } = options;
+  const keyOf = key || (argumentsKey as unknown as (...args: A) => K);
+  let isAsync = fn.constructor.name === "AsyncFunction";
+
+  const memoized = function (this: unknown, ...args: A): R {
+    const cacheKey = keyOf(...args);
+
+    // fetch shares one call between concurrent callers and stores the resolved value
+    if (isAsync) {
+      return cache.fetch(cacheKey, () => fn.apply(this, args) as Promise<T>, setOptions) as R;
+    }
+
+    // Negative entries and remembered errors hold no result, so fn is called for them
+    const cached = cache.lookup(cacheKey);
+    if (cached.status === "fresh" || cached.status === "stale") {
+      return cached.value as unknown as R;
+    }
+
+    const result = fn.apply(this, args);
+    if (isThenable(result)) {
+      isAsync = true;
+      return cache.fetch(cacheKey, () => result as PromiseLike<T> as Promise<T>, setOptions) as R;
+    }
+
+    cache.set(cacheKey, result as unknown as T, setOptions);
+    return result;
+  };
+
+  return Object.assign(memoized, {
+    invalidate: (...args: A) => cache.delete(keyOf(...args)),
+    cache,
+  });
+}
+
+// Memoizes fn in a cache of its own, created from the remaining options
+export function memoize<A extends unknown[], R, K = string>(
+  fn: (...args: A) => R,
+  options: MemoizeOptions<A, Awaited<R>, K> = {}
+): Memoized<A, R, Awaited<R>, K> {
+  const { key, ttlMs, expiration, maxAgeMs, size, tags, version, ...cacheOptions } = options;
+  const cache = new Cache<Awaited<R>, K>({
+    ...cacheOptions,
+    maxSize: options.maxSize !== undefined ? options.maxSize : 1000,
+    ttlMs,
+    expiration,
+    maxAgeMs,
+  });
+
+  return wrapFunction(cache, fn, { key, size, tags, version });
+}
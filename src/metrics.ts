@@ -0,0 +1,70 @@
+import type { CacheStats } from "./index.js";
+
+export interface PrometheusSource {
+  // Value of the cache label, identifying the cache on a shared /metrics endpoint
+  name: string;
+  stats: CacheStats;
+}
+
+export interface PrometheusOptions {
+  prefix?: string;
+  label?: string;
+}
+
+interface MetricDefinition {
+  name: string;
+  type: "counter" | "gauge";
+  help: string;
+  value: (stats: CacheStats) => number;
+}
+
+const METRICS: MetricDefinition[] = [
+  { name: "hits_total", type: "counter", help: "Reads that found a value.", value: (stats) => stats.hits },
+  { name: "misses_total", type: "counter", help: "Reads that found no value.", value: (stats) => stats.misses },
+  { name: "negative_hits_total", type: "counter", help: "Reads that found a negative entry.", value: (stats) => stats.negativeHits },
+  { name: "expired_on_read_total", type: "counter", help: "Reads that found an expired entry.", value: (stats) => stats.expiredOnRead },
+  { name: "evictions_total", type: "counter", help: "Entries evicted to stay within capacity.", value: (stats) => stats.evictions },
+  { name: "sweeper_removals_total", type: "counter", help: "Expired entries removed by cleanup.", value: (stats) => stats.sweeperRemovals },
+  { name: "sets_total", type: "counter", help: "Values written to the cache.", value: (stats) => stats.sets },
+  { name: "overwrites_total", type: "counter", help: "Writes that replaced an existing entry.", value: (stats) => stats.overwrites },
+  { name: "deletes_total", type: "counter", help: "Entries removed by delete.", value: (stats) => stats.deletes },
+  { name: "collected_total", type: "counter", help: "Entries removed because their weakly held value was collected.", value: (stats) => stats.collected },
+  { name: "hit_ratio", type: "gauge", help: "Share of reads that found a value.", value: (stats) => stats.hitRatio },
+  { name: "size", type: "gauge", help: "Entries currently held.", value: (stats) => stats.size },
+];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+// Renders cache stats in the Prometheus text exposition format. Several caches
+// can be rendered together so each metric family is only declared once.
+export function formatPrometheus(
+  sources: PrometheusSource | PrometheusSource[],
+  options: PrometheusOptions = {}
+): string {
+  const prefix = options.prefix || "hybrid_lru";
+  const label = options.label || "cache";
+  const list = Array.isArray(sources) ? sources : [sources];
+
+  if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(prefix)) {
+    throw new Error("prefix must be a valid Prometheus metric name");
+  }
+
+  if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(label)) {
+    throw new Error("label must be a valid Prometheus label name");
+  }
+
+  const lines: string[] = [];
+  for (const metric of METRICS) {
+    const name = `${prefix}_${metric.name}`;
+    lines.push(`# HELP ${name} ${metric.help}`);
+    lines.push(`# TYPE ${name} ${metric.type}`);
+
+    for (const source of list) {
+      lines.push(`${name}{${label}="${escapeLabelValue(source.name)}"} ${metric.value(source.stats)}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
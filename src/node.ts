@@ -0,0 +1,52 @@
+export class Node<T, K> {
+  key: K = undefined as unknown as K;
+  // Map key the node is stored under: the key itself, or its keyHash
+  hash: unknown = undefined;
+  value: T | null = null;
+  expiresAt: number = 0;
+  ttlMs: number = 0;
+  // Sliding entries push expiresAt out by ttlMs on every read, up to insertedAt + maxAgeMs
+  sliding: boolean = false;
+  insertedAt: number = 0;
+  // When ttlMs last started counting: the last write, or the last read of a sliding entry
+  refreshedAt: number = 0;
+  maxAgeMs: number = Infinity;
+  size: number = 0;
+  refreshFailed: boolean = false;
+  // Remembers that the key has no value, e.g. the backend reported it as not found
+  negative: boolean = false;
+  tags: readonly string[] | null = null;
+  // Caller-supplied version of the value; unversioned values are older than any version
+  version: number = -Infinity;
+  heapIndex: number = -1;
+  // Owned by the eviction policy: which of its lists the node is on, and how often it was used
+  segment: number = 0;
+  frequency: number = 0;
+  // Bumped whenever the node takes a new value, so stale finalizer callbacks can be told apart
+  generation: number = 0;
+  prev: Node<T, K> | null = null;
+  next: Node<T, K> | null = null;
+
+  reset(key: K, value: T, expiresAt: number): void {
+    this.key = key;
+    this.hash = undefined;
+    this.value = value;
+    this.expiresAt = expiresAt;
+    this.ttlMs = 0;
+    this.sliding = false;
+    this.insertedAt = 0;
+    this.refreshedAt = 0;
+    this.maxAgeMs = Infinity;
+    this.size = 0;
+    this.refreshFailed = false;
+    this.negative = false;
+    this.tags = null;
+    this.version = -Infinity;
+    this.heapIndex = -1;
+    this.segment = 0;
+    this.frequency = 0;
+    this.generation++;
+    this.prev = null;
+    this.next = null;
+  }
+}
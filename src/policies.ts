@@ -0,0 +1,608 @@
+import type { Node } from "./node.js";
+
+// Decides which entries a Cache keeps. The cache tells the policy about every
+// insert, access and removal, and asks it for a victim whenever it is over capacity.
+export interface EvictionPolicy<T, K> {
+  onInsert(node: Node<T, K>): void;
+  onAccess(node: Node<T, K>): void;
+  onRemove(node: Node<T, K>): void;
+  selectVictim(): Node<T, K> | null;
+  // Nodes from the one the policy values most to the next one it would evict
+  nodes(reverse: boolean): IterableIterator<Node<T, K>>;
+  clear(): void;
+  // Called when the cache's maxSize changes, for policies that size themselves by it
+  resize?(capacity: number): void;
+}
+
+// Intrusive doubly-linked list over the pooled nodes' prev/next pointers. A node
+// can be on at most one list at a time.
+class NodeList<T, K> {
+  head: Node<T, K> | null = null;
+  tail: Node<T, K> | null = null;
+  size: number = 0;
+
+  addToFront(node: Node<T, K>): void {
+    node.next = this.head;
+    node.prev = null;
+
+    if (this.head) {
+      this.head.prev = node;
+    }
+    this.head = node;
+
+    if (!this.tail) {
+      this.tail = node;
+    }
+    this.size++;
+  }
+
+  remove(node: Node<T, K>): void {
+    if (node.prev) {
+      node.prev.next = node.next;
+    } else {
+      this.head = node.next;
+    }
+
+    if (node.next) {
+      node.next.prev = node.prev;
+    } else {
+      this.tail = node.prev;
+    }
+
+    node.prev = null;
+    node.next = null;
+    this.size--;
+  }
+
+  moveToFront(node: Node<T, K>): void {
+    this.remove(node);
+    this.addToFront(node);
+  }
+
+  *nodes(reverse: boolean): IterableIterator<Node<T, K>> {
+    for (let node = reverse ? this.tail : this.head; node; node = reverse ? node.prev : node.next) {
+      yield node;
+    }
+  }
+
+  clear(): void {
+    this.head = null;
+    this.tail = null;
+    this.size = 0;
+  }
+}
+
+export class LruPolicy<T, K> implements EvictionPolicy<T, K> {
+  private list = new NodeList<T, K>(); // head is most recently used
+
+  onInsert(node: Node<T, K>): void {
+    this.list.addToFront(node);
+  }
+
+  onAccess(node: Node<T, K>): void {
+    this.list.moveToFront(node);
+  }
+
+  onRemove(node: Node<T, K>): void {
+    this.list.remove(node);
+  }
+
+  selectVictim(): Node<T, K> | null {
+    return this.list.tail;
+  }
+
+  nodes(reverse: boolean): IterableIterator<Node<T, K>> {
+    return this.list.nodes(reverse);
+  }
+
+  clear(): void {
+    this.list.clear();
+  }
+}
+
+// Like LRU, but reads do not refresh an entry: the oldest insert is evicted first
+export class FifoPolicy<T, K> implements EvictionPolicy<T, K> {
+  private list = new NodeList<T, K>(); // head is most recently inserted
+
+  onInsert(node: Node<T, K>): void {
+    this.list.addToFront(node);
+  }
+
+  onAccess(): void {
+    // Insertion order is all that matters
+  }
+
+  onRemove(node: Node<T, K>): void {
+    this.list.remove(node);
+  }
+
+  selectVictim(): Node<T, K> | null {
+    return this.list.tail;
+  }
+
+  nodes(reverse: boolean): IterableIterator<Node<T, K>> {
+    return this.list.nodes(reverse);
+  }
+
+  clear(): void {
+    this.list.clear();
+  }
+}
+
+// Entries that share a use count, ordered most recently used first
+class FrequencyBucket<T, K> {
+  list = new NodeList<T, K>();
+  prev: FrequencyBucket<T, K> | null = null;
+  next: FrequencyBucket<T, K> | null = null;
+
+  constructor(public frequency: number) {}
+}
+
+// Evicts the least frequently used entry, breaking ties by recency. Buckets of
+// equal use counts are kept in a list ordered by count, so every hook is O(1).
+export class LfuPolicy<T, K> implements EvictionPolicy<T, K> {
+  private buckets = new Map<number, FrequencyBucket<T, K>>();
+  private lowest: FrequencyBucket<T, K> | null = null;
+  private highest: FrequencyBucket<T, K> | null = null;
+  private lastInserted: Node<T, K> | null = null;
+
+  onInsert(node: Node<T, K>): void {
+    node.frequency = 1;
+    this.bucketAfter(null, 1).list.addToFront(node);
+    this.lastInserted = node;
+  }
+
+  onAccess(node: Node<T, K>): void {
+    const bucket = this.buckets.get(node.frequency) as FrequencyBucket<T, K>;
+    const next = this.bucketAfter(bucket, node.frequency + 1);
+
+    this.removeFrom(bucket, node);
+    node.frequency++;
+    next.list.addToFront(node);
+  }
+
+  onRemove(node: Node<T, K>): void {
+    this.removeFrom(this.buckets.get(node.frequency) as FrequencyBucket<T, K>, node);
+    if (node === this.lastInserted) {
+      this.lastInserted = null;
+    }
+  }
+
+  selectVictim(): Node<T, K> | null {
+    if (!this.lowest) {
+      return null;
+    }
+
+    // A new entry always has the lowest count; evict the next candidate instead while there is one
+    const victim = this.lowest.list.tail;
+    if (victim === this.lastInserted && this.lowest.list.size === 1 && this.lowest.next) {
+      return this.lowest.next.list.tail;
+    }
+    return victim;
+  }
+
+  *nodes(reverse: boolean): IterableIterator<Node<T, K>> {
+    for (let bucket = reverse ? this.lowest : this.highest; bucket; bucket = reverse ? bucket.next : bucket.prev) {
+      yield* bucket.list.nodes(reverse);
+    }
+  }
+
+  clear(): void {
+    this.buckets.clear();
+    this.lowest = null;
+    this.highest = null;
+    this.lastInserted = null;
+  }
+
+  // The bucket for `frequency`, created right after `previous` (or first) if missing
+  private bucketAfter(previous: FrequencyBucket<T, K> | null, frequency: number): FrequencyBucket<T, K> {
+    const existing = this.buckets.get(frequency);
+    if (existing) {
+      return existing;
+    }
+
+    const bucket = new FrequencyBucket<T, K>(frequency);
+    bucket.prev = previous;
+    bucket.next = previous ? previous.next : this.lowest;
+
+    if (bucket.prev) {
+      bucket.prev.next = bucket;
+    } else {
+      this.lowest = bucket;
+    }
+
+    if (bucket.next) {
+      bucket.next.prev = bucket;
+    } else {
+      this.highest = bucket;
+    }
+
+    this.buckets.set(frequency, bucket);
+    return bucket;
+  }
+
+  private removeFrom(bucket: FrequencyBucket<T, K>, node: Node<T, K>): void {
+    bucket.list.remove(node);
+    if (bucket.list.size > 0) {
+      return;
+    }
+
+    if (bucket.prev) {
+      bucket.prev.next = bucket.next;
+    } else {
+      this.lowest = bucket.next;
+    }
+
+    if (bucket.next) {
+      bucket.next.prev = bucket.prev;
+    } else {
+      this.highest = bucket.prev;
+    }
+
+    this.buckets.delete(bucket.frequency);
+  }
+}
+
+const RECENT = 0;
+const FREQUENT = 1;
+
+// Adaptive Replacement Cache: entries seen once live in a recency list, entries
+// seen again move to a frequency list. Keys of recently evicted entries are
+// remembered in two ghost lists, and a hit on a ghost shifts the target size of
+// the recency list towards whichever list would have kept it.
+export class ArcPolicy<T, K> implements EvictionPolicy<T, K> {
+  private recent = new NodeList<T, K>();
+  private frequent = new NodeList<T, K>();
+  // Ghost lists hold the hashes of evicted entries, oldest first
+  private recentGhosts = new Map<unknown, true>();
+  private frequentGhosts = new Map<unknown, true>();
+  private capacity: number;
+  private recentTarget: number = 0;
+  private lastInserted: Node<T, K> | null = null;
+  private insertedFromFrequentGhost: boolean = false;
+  private pendingVictim: Node<T, K> | null = null;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  onInsert(node: Node<T, K>): void {
+    const recentGhosts = this.recentGhosts.size;
+    const frequentGhosts = this.frequentGhosts.size;
+    this.lastInserted = node;
+    this.insertedFromFrequentGhost = false;
+
+    if (this.recentGhosts.delete(node.hash)) {
+      // Evicted from the recency list too early: give it more room
+      this.recentTarget = Math.min(this.capacity, this.recentTarget + Math.max(frequentGhosts / recentGhosts, 1));
+      this.addTo(this.frequent, FREQUENT, node);
+    } else if (this.frequentGhosts.delete(node.hash)) {
+      // Evicted from the frequency list too early: give it more room
+      this.recentTarget = Math.max(0, this.recentTarget - Math.max(recentGhosts / frequentGhosts, 1));
+      this.insertedFromFrequentGhost = true;
+      this.addTo(this.frequent, FREQUENT, node);
+    } else {
+      this.addTo(this.recent, RECENT, node);
+    }
+  }
+
+  onAccess(node: Node<T, K>): void {
+    this.listOf(node).remove(node);
+    this.addTo(this.frequent, FREQUENT, node);
+  }
+
+  onRemove(node: Node<T, K>): void {
+    this.listOf(node).remove(node);
+    if (node === this.lastInserted) {
+      this.lastInserted = null;
+    }
+
+    // Only evictions are remembered; deleted and expired keys are simply forgotten
+    if (node === this.pendingVictim) {
+      this.pendingVictim = null;
+      this.remember(node.segment === RECENT ? this.recentGhosts : this.frequentGhosts, node.hash);
+    }
+  }
+
+  selectVictim(): Node<T, K> | null {
+    const size = this.recent.size;
+    const preferRecent = size > 0 &&
+      (size > this.recentTarget || (this.insertedFromFrequentGhost && size === this.recentTarget));
+
+    let victim = preferRecent ? this.recent.tail : this.frequent.tail || this.recent.tail;
+    // Never evict the entry that is being inserted while something else can go
+    if (victim === this.lastInserted) {
+      const other = victim === this.recent.tail ? this.frequent.tail : this.recent.tail;
+      victim = other || victim;
+    }
+
+    this.pendingVictim = victim;
+    return victim;
+  }
+
+  *nodes(reverse: boolean): IterableIterator<Node<T, K>> {
+    const lists = reverse ? [this.recent, this.frequent] : [this.frequent, this.recent];
+
+    for (const list of lists) {
+      yield* list.nodes(reverse);
+    }
+  }
+
+  clear(): void {
+    this.recent.clear();
+    this.frequent.clear();
+    this.recentGhosts.clear();
+    this.frequentGhosts.clear();
+    this.recentTarget = 0;
+    this.lastInserted = null;
+    this.insertedFromFrequentGhost = false;
+    this.pendingVictim = null;
+  }
+
+  private addTo(list: NodeList<T, K>, segment: number, node: Node<T, K>): void {
+    node.segment = segment;
+    list.addToFront(node);
+  }
+
+  private listOf(node: Node<T, K>): NodeList<T, K> {
+    return node.segment === RECENT ? this.recent : this.frequent;
+  }
+
+  resize(capacity: number): void {
+    this.capacity = capacity;
+    this.recentTarget = Math.min(this.capacity, this.recentTarget);
+    this.trim(this.recentGhosts);
+    this.trim(this.frequentGhosts);
+  }
+
+  private remember(ghosts: Map<unknown, true>, hash: unknown): void {
+    ghosts.set(hash, true);
+    this.trim(ghosts);
+  }
+
+  // Keeps a ghost list within the cache's capacity, dropping its oldest keys
+  private trim(ghosts: Map<unknown, true>): void {
+    for (const oldest of ghosts.keys()) {
+      if (ghosts.size <= this.capacity) break;
+      ghosts.delete(oldest);
+    }
+  }
+}
+
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 1;
+
+// 32-bit hash of a key for the frequency sketch. Objects hash by identity.
+function hashOf(value: unknown): number {
+  if (typeof value === "number") {
+    return Math.imul(value | 0, 0x9e3779b1) ^ Math.imul((value * 0x100000000) | 0, 0x85ebca6b);
+  }
+
+  if ((typeof value === "object" && value !== null) || typeof value === "function") {
+    let id = objectIds.get(value as object);
+    if (id === undefined) {
+      id = nextObjectId++;
+      objectIds.set(value as object, id);
+    }
+    return Math.imul(id, 0x9e3779b1);
+  }
+
+  // FNV-1a over the string form
+  const text = String(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash;
+}
+
+const SKETCH_SEEDS = [0x97cb3127, 0xa5a5a5a5, 0x3c6ef372, 0x5851f42d];
+
+// Count-min sketch of 4-bit counters estimating how often each key was used.
+// Counters are halved once enough increments were recorded, so old popularity fades.
+export class CountMinSketch {
+  private table: Uint8Array;
+  private mask: number;
+  private additions: number;
+  private sampleSize: number;
+
+  constructor(capacity: number) {
+    let width = 16;
+    while (width < capacity) {
+      width *= 2;
+    }
+
+    this.table = new Uint8Array(width * SKETCH_SEEDS.length);
+    this.mask = width - 1;
+    this.additions = 0;
+    this.sampleSize = 10 * width;
+  }
+
+  increment(hash: number): void {
+    for (let row = 0; row < SKETCH_SEEDS.length; row++) {
+      const index = this.indexOf(hash, row);
+      if (this.table[index] < 15) {
+        this.table[index]++;
+      }
+    }
+
+    if (++this.additions >= this.sampleSize) {
+      this.age();
+    }
+  }
+
+  frequency(hash: number): number {
+    let min = 15;
+    for (let row = 0; row < SKETCH_SEEDS.length; row++) {
+      min = Math.min(min, this.table[this.indexOf(hash, row)]);
+    }
+    return min;
+  }
+
+  clear(): void {
+    this.table.fill(0);
+    this.additions = 0;
+  }
+
+  private age(): void {
+    for (let i = 0; i < this.table.length; i++) {
+      this.table[i] >>= 1;
+    }
+    this.additions = Math.floor(this.additions / 2);
+  }
+
+  private indexOf(hash: number, row: number): number {
+    let h = Math.imul(hash ^ SKETCH_SEEDS[row], 0x2c1b3c6d);
+    h ^= h >>> 15;
+    return row * (this.mask + 1) + (h & this.mask);
+  }
+}
+
+const WINDOW = 0;
+const PROBATION = 1;
+const PROTECTED = 2;
+
+// W-TinyLFU: new entries land in a small LRU window. Entries pushed out of the
+// window must beat the main region's eviction victim on estimated frequency to
+// stay, so one-off scans cannot flush the frequently used entries. The main
+// region is a segmented LRU split into probation and protected lists.
+export class WTinyLfuPolicy<T, K> implements EvictionPolicy<T, K> {
+  private window = new NodeList<T, K>();
+  private probation = new NodeList<T, K>();
+  private protected = new NodeList<T, K>();
+  private sketch: CountMinSketch;
+  private windowMax: number;
+  private protectedMax: number;
+  // Most recent entry moved from the window into probation, awaiting admission
+  private candidate: Node<T, K> | null = null;
+
+  constructor(capacity: number) {
+    this.sketch = new CountMinSketch(capacity);
+    this.windowMax = Math.max(1, Math.round(capacity * 0.01));
+    this.protectedMax = Math.round((capacity - this.windowMax) * 0.8);
+  }
+
+  onInsert(node: Node<T, K>): void {
+    this.sketch.increment(hashOf(node.hash));
+    node.segment = WINDOW;
+    this.window.addToFront(node);
+
+    if (this.window.size > this.windowMax) {
+      this.spill();
+    }
+  }
+
+  onAccess(node: Node<T, K>): void {
+    this.sketch.increment(hashOf(node.hash));
+
+    if (node.segment === WINDOW) {
+      this.window.moveToFront(node);
+    } else if (node.segment === PROTECTED) {
+      this.protected.moveToFront(node);
+    } else {
+      // A second hit in probation promotes the entry, demoting protected's LRU if it overflows
+      this.probation.remove(node);
+      node.segment = PROTECTED;
+      this.protected.addToFront(node);
+      if (node === this.candidate) {
+        this.candidate = null;
+      }
+
+      if (this.protected.size > this.protectedMax) {
+        this.demote();
+      }
+    }
+  }
+
+  onRemove(node: Node<T, K>): void {
+    this.listOf(node).remove(node);
+    if (node === this.candidate) {
+      this.candidate = null;
+    }
+  }
+
+  selectVictim(): Node<T, K> | null {
+    const victim = this.probation.tail || this.protected.tail || this.window.tail;
+    const candidate = this.candidate;
+    if (!victim || !candidate || candidate === victim) {
+      return victim;
+    }
+
+    // Admit the candidate only if it is used more often than the entry it would displace
+    const candidateFrequency = this.sketch.frequency(hashOf(candidate.hash));
+    const victimFrequency = this.sketch.frequency(hashOf(victim.hash));
+    return candidateFrequency > victimFrequency ? victim : candidate;
+  }
+
+  *nodes(reverse: boolean): IterableIterator<Node<T, K>> {
+    const lists = reverse
+      ? [this.probation, this.window, this.protected]
+      : [this.protected, this.window, this.probation];
+
+    for (const list of lists) {
+      yield* list.nodes(reverse);
+    }
+  }
+
+  clear(): void {
+    this.window.clear();
+    this.probation.clear();
+    this.protected.clear();
+    this.sketch.clear();
+    this.candidate = null;
+  }
+
+  // The sketch keeps its width, and with it the frequencies seen so far
+  resize(capacity: number): void {
+    this.windowMax = Math.max(1, Math.round(capacity * 0.01));
+    this.protectedMax = Math.round((capacity - this.windowMax) * 0.8);
+
+    while (this.window.size > this.windowMax) {
+      this.spill();
+    }
+    while (this.protected.size > this.protectedMax) {
+      this.demote();
+    }
+  }
+
+  // Moves the window's LRU entry into probation, where it waits for admission
+  private spill(): void {
+    const spilled = this.window.tail as Node<T, K>;
+    this.window.remove(spilled);
+    spilled.segment = PROBATION;
+    this.probation.addToFront(spilled);
+    this.candidate = spilled;
+  }
+
+  private demote(): void {
+    const demoted = this.protected.tail as Node<T, K>;
+    this.protected.remove(demoted);
+    demoted.segment = PROBATION;
+    this.probation.addToFront(demoted);
+  }
+
+  private listOf(node: Node<T, K>): NodeList<T, K> {
+    if (node.segment === WINDOW) return this.window;
+    return node.segment === PROTECTED ? this.protected : this.probation;
+  }
+}
+
+export type PolicyName = "lru" | "lfu" | "fifo" | "arc" | "w-tinylfu";
+
+export function createPolicy<T, K>(name: PolicyName, capacity: number): EvictionPolicy<T, K> {
+  switch (name) {
+    case "lru":
+      return new LruPolicy<T, K>();
+    case "lfu":
+      return new LfuPolicy<T, K>();
+    case "fifo":
+      return new FifoPolicy<T, K>();
+    case "arc":
+      return new ArcPolicy<T, K>(capacity);
+    case "w-tinylfu":
+      return new WTinyLfuPolicy<T, K>(capacity);
+    default:
+      throw new Error("policy must be one of lru, lfu, fifo, arc, w-tinylfu or an EvictionPolicy");
+  }
+}
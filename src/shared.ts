@@ -0,0 +1,457 @@
+import { Clock, monotonicClock } from "./clock.js";
+
+export type SharedValue = string | Uint8Array;
+
+export interface SharedCacheOptions {
+  // Number of entries; the buffer is allocated up front for all of them
+  maxSize: number;
+  // Largest key and value, in bytes, each entry has room for
+  maxKeyBytes?: number;
+  maxValueBytes: number;
+  // "string" values are stored as UTF-8, "binary" values as raw bytes
+  valueType?: "string" | "binary";
+  ttlMs?: number;
+  // Every thread must use clocks that agree, as expiry times are shared between them
+  clock?: Clock;
+}
+
+export interface SharedCacheHandle {
+  buffer: SharedArrayBuffer;
+}
+
+export interface SharedAttachOptions {
+  clock?: Clock;
+}
+
+export interface SharedSetOptions {
+  // Overrides the cache-wide ttlMs for this entry. Infinity means never expires.
+  ttlMs?: number;
+}
+
+// Header slots, as 32-bit integers at the start of the buffer
+const MAGIC = 0;
+const LOCK = 1;
+const CAPACITY = 2;
+const KEY_BYTES = 3;
+const VALUE_BYTES = 4;
+const VALUE_TYPE = 5;
+const SIZE = 6;
+const HEAD = 7;
+const TAIL = 8;
+const FREE = 9;
+// Keeps the Float64 regions that follow 8-byte aligned
+const HEADER_INTS = 10;
+
+const SHARED_CACHE_MAGIC = 0x484c5255; // "HLRU"
+const STRING_VALUES = 0;
+const BINARY_VALUES = 1;
+const NONE = -1;
+
+interface Layout {
+  bucketCount: number;
+  ttlOffset: number;
+  expiriesOffset: number;
+  bucketsOffset: number;
+  chainOffset: number;
+  prevOffset: number;
+  nextOffset: number;
+  hashesOffset: number;
+  keyLengthsOffset: number;
+  valueLengthsOffset: number;
+  keysOffset: number;
+  valuesOffset: number;
+  byteLength: number;
+}
+
+// Every region's offset follows from the capacity and slot sizes, so an attaching
+// thread can rebuild the views from the header alone
+function layoutFor(capacity: number, maxKeyBytes: number, maxValueBytes: number): Layout {
+  let bucketCount = 1;
+  while (bucketCount < capacity) {
+    bucketCount *= 2;
+  }
+
+  const ttlOffset = HEADER_INTS * 4;
+  const expiriesOffset = ttlOffset + 8;
+  const bucketsOffset = expiriesOffset + capacity * 8;
+  const chainOffset = bucketsOffset + bucketCount * 4;
+  const prevOffset = chainOffset + capacity * 4;
+  const nextOffset = prevOffset + capacity * 4;
+  const hashesOffset = nextOffset + capacity * 4;
+  const keyLengthsOffset = hashesOffset + capacity * 4;
+  const valueLengthsOffset = keyLengthsOffset + capacity * 4;
+  const keysOffset = valueLengthsOffset + capacity * 4;
+  const valuesOffset = keysOffset + capacity * maxKeyBytes;
+
+  return {
+    bucketCount,
+    ttlOffset,
+    expiriesOffset,
+    bucketsOffset,
+    chainOffset,
+    prevOffset,
+    nextOffset,
+    hashesOffset,
+    keyLengthsOffset,
+    valueLengthsOffset,
+    keysOffset,
+    valuesOffset,
+    byteLength: valuesOffset + capacity * maxValueBytes,
+  };
+}
+
+// FNV-1a over the key's UTF-8 bytes
+function hashBytes(bytes: Buffer): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash | 0;
+}
+
+function validateTtl(ttlMs: number | undefined): void {
+  if (ttlMs !== undefined && (typeof ttlMs !== "number" || Number.isNaN(ttlMs) || ttlMs <= 0)) {
+    throw new Error("ttlMs must be a positive number or Infinity");
+  }
+}
+
+// An LRU cache for fixed-size string or binary values that lives entirely in a
+// SharedArrayBuffer: the hash index, the LRU links and the expiry times. Every
+// worker_threads worker attaching to the same handle sees the same entries, and
+// a lock built on Atomics serializes their operations.
+export class SharedCache<V extends SharedValue = string> {
+  readonly buffer: SharedArrayBuffer;
+  private clock: Clock;
+  private header: Int32Array;
+  private defaultTtl: Float64Array;
+  private expiries: Float64Array;
+  private buckets: Int32Array;
+  // Next slot in the same bucket, or in the free list for unused slots
+  private chain: Int32Array;
+  // LRU links, from the most recently used entry at the head to the tail
+  private prev: Int32Array;
+  private next: Int32Array;
+  private hashes: Int32Array;
+  private keyLengths: Int32Array;
+  private valueLengths: Int32Array;
+  private bytes: Buffer;
+  private capacity: number;
+  private maxKeyBytes: number;
+  private maxValueBytes: number;
+  private binary: boolean;
+  private layout: Layout;
+
+  static create<V extends SharedValue = string>(options: SharedCacheOptions): SharedCache<V> {
+    if (!Number.isInteger(options.maxSize) || options.maxSize <= 0) {
+      throw new Error("maxSize must be a positive integer");
+    }
+    if (options.maxKeyBytes !== undefined && (!Number.isInteger(options.maxKeyBytes) || options.maxKeyBytes <= 0)) {
+      throw new Error("maxKeyBytes must be a positive integer");
+    }
+    if (!Number.isInteger(options.maxValueBytes) || options.maxValueBytes <= 0) {
+      throw new Error("maxValueBytes must be a positive integer");
+    }
+    if (options.valueType !== undefined && options.valueType !== "string" && options.valueType !== "binary") {
+      throw new Error("valueType must be 'string' or 'binary'");
+    }
+    validateTtl(options.ttlMs);
+
+    const maxKeyBytes = options.maxKeyBytes || 64;
+    const layout = layoutFor(options.maxSize, maxKeyBytes, options.maxValueBytes);
+    const buffer = new SharedArrayBuffer(layout.byteLength);
+
+    const header = new Int32Array(buffer, 0, HEADER_INTS);
+    header[CAPACITY] = options.maxSize;
+    header[KEY_BYTES] = maxKeyBytes;
+    header[VALUE_BYTES] = options.maxValueBytes;
+    header[VALUE_TYPE] = options.valueType === "binary" ? BINARY_VALUES : STRING_VALUES;
+    new Float64Array(buffer, layout.ttlOffset, 1)[0] = options.ttlMs !== undefined ? options.ttlMs : 60000;
+
+    const cache = new SharedCache<V>(buffer, options.clock || monotonicClock);
+    cache.reset();
+    // Published last, so a buffer is only attachable once it is fully set up
+    Atomics.store(header, MAGIC, SHARED_CACHE_MAGIC);
+    return cache;
+  }
+
+  // Attaches to a cache created in another thread, from the handle it was sent
+  static attach<V extends SharedValue = string>(handle: SharedCacheHandle, options: SharedAttachOptions = {}): SharedCache<V> {
+    const buffer = handle && handle.buffer;
+    // Checked by tag rather than instanceof, as buffers received from other realms have their own prototype
+    if (Object.prototype.toString.call(buffer) !== "[object SharedArrayBuffer]" || buffer.byteLength < HEADER_INTS * 4
+      || Atomics.load(new Int32Array(buffer, 0, HEADER_INTS), MAGIC) !== SHARED_CACHE_MAGIC) {
+      throw new Error("handle must come from SharedCache.handle()");
+    }
+
+    return new SharedCache<V>(buffer, options.clock || monotonicClock);
+  }
+
+  private constructor(buffer: SharedArrayBuffer, clock: Clock) {
+    this.buffer = buffer;
+    this.clock = clock;
+    this.header = new Int32Array(buffer, 0, HEADER_INTS);
+    this.capacity = this.header[CAPACITY];
+    this.maxKeyBytes = this.header[KEY_BYTES];
+    this.maxValueBytes = this.header[VALUE_BYTES];
+    this.binary = this.header[VALUE_TYPE] === BINARY_VALUES;
+
+    const layout = layoutFor(this.capacity, this.maxKeyBytes, this.maxValueBytes);
+    this.layout = layout;
+    this.defaultTtl = new Float64Array(buffer, layout.ttlOffset, 1);
+    this.expiries = new Float64Array(buffer, layout.expiriesOffset, this.capacity);
+    this.buckets = new Int32Array(buffer, layout.bucketsOffset, layout.bucketCount);
+    this.chain = new Int32Array(buffer, layout.chainOffset, this.capacity);
+    this.prev = new Int32Array(buffer, layout.prevOffset, this.capacity);
+    this.next = new Int32Array(buffer, layout.nextOffset, this.capacity);
+    this.hashes = new Int32Array(buffer, layout.hashesOffset, this.capacity);
+    this.keyLengths = new Int32Array(buffer, layout.keyLengthsOffset, this.capacity);
+    this.valueLengths = new Int32Array(buffer, layout.valueLengthsOffset, this.capacity);
+    this.bytes = Buffer.from(buffer);
+  }
+
+  // Can be sent to other threads with postMessage and passed to SharedCache.attach
+  handle(): SharedCacheHandle {
+    return { buffer: this.buffer };
+  }
+
+  get(key: string): V | null {
+    const encodedKey = this.encodeKey(key);
+
+    return this.locked(() => {
+      const slot = this.find(encodedKey, hashBytes(encodedKey));
+      if (slot === NONE) return null;
+
+      if (this.clock.now() >= this.expiries[slot]) {
+        this.remove(slot);
+        return null;
+      }
+
+      this.unlink(slot);
+      this.linkAtHead(slot);
+      return this.readValue(slot);
+    });
+  }
+
+  has(key: string): boolean {
+    const encodedKey = this.encodeKey(key);
+
+    return this.locked(() => {
+      const slot = this.find(encodedKey, hashBytes(encodedKey));
+      return slot !== NONE && this.clock.now() < this.expiries[slot];
+    });
+  }
+
+  set(key: string, value: V, options: SharedSetOptions = {}): void {
+    const encodedKey = this.encodeKey(key);
+    const encodedValue = this.encodeValue(value);
+    validateTtl(options.ttlMs);
+
+    this.locked(() => {
+      const ttlMs = options.ttlMs !== undefined ? options.ttlMs : this.defaultTtl[0];
+      const hash = hashBytes(encodedKey);
+      let slot = this.find(encodedKey, hash);
+
+      if (slot !== NONE) {
+        this.unlink(slot);
+      } else {
+        slot = this.allocate();
+        this.hashes[slot] = hash;
+        this.keyLengths[slot] = encodedKey.length;
+        encodedKey.copy(this.bytes, this.layout.keysOffset + slot * this.maxKeyBytes);
+
+        const bucket = hash & (this.layout.bucketCount - 1);
+        this.chain[slot] = this.buckets[bucket];
+        this.buckets[bucket] = slot;
+        this.header[SIZE]++;
+      }
+
+      this.valueLengths[slot] = encodedValue.length;
+      encodedValue.copy(this.bytes, this.layout.valuesOffset + slot * this.maxValueBytes);
+      this.expiries[slot] = this.clock.now() + ttlMs;
+      this.linkAtHead(slot);
+    });
+  }
+
+  delete(key: string): boolean {
+    const encodedKey = this.encodeKey(key);
+
+    return this.locked(() => {
+      const slot = this.find(encodedKey, hashBytes(encodedKey));
+      if (slot === NONE) return false;
+
+      this.remove(slot);
+      return true;
+    });
+  }
+
+  // Walks every entry, as the shared layout keeps no expiry heap
+  cleanExpired(now: number = this.clock.now()): number {
+    return this.locked(() => {
+      let cleanedCount = 0;
+
+      let slot = this.header[TAIL];
+      while (slot !== NONE) {
+        const newer = this.prev[slot];
+        if (now >= this.expiries[slot]) {
+          this.remove(slot);
+          cleanedCount++;
+        }
+        slot = newer;
+      }
+
+      return cleanedCount;
+    });
+  }
+
+  size(): number {
+    return Atomics.load(this.header, SIZE);
+  }
+
+  clear(): void {
+    this.locked(() => this.reset());
+  }
+
+  private reset(): void {
+    this.buckets.fill(NONE);
+    for (let slot = 0; slot < this.capacity; slot++) {
+      this.chain[slot] = slot + 1 < this.capacity ? slot + 1 : NONE;
+    }
+    this.header[SIZE] = 0;
+    this.header[HEAD] = NONE;
+    this.header[TAIL] = NONE;
+    this.header[FREE] = 0;
+  }
+
+  // Runs with the buffer locked against every other thread attached to it
+  private locked<R>(run: () => R): R {
+    while (Atomics.compareExchange(this.header, LOCK, 0, 1) !== 0) {
+      Atomics.wait(this.header, LOCK, 1);
+    }
+
+    try {
+      return run();
+    } finally {
+      Atomics.store(this.header, LOCK, 0);
+      Atomics.notify(this.header, LOCK, 1);
+    }
+  }
+
+  private find(encodedKey: Buffer, hash: number): number {
+    let slot = this.buckets[hash & (this.layout.bucketCount - 1)];
+
+    while (slot !== NONE) {
+      if (this.hashes[slot] === hash && this.keyLengths[slot] === encodedKey.length) {
+        const start = this.layout.keysOffset + slot * this.maxKeyBytes;
+        if (encodedKey.compare(this.bytes, start, start + encodedKey.length) === 0) {
+          return slot;
+        }
+      }
+      slot = this.chain[slot];
+    }
+
+    return NONE;
+  }
+
+  // Takes a free slot, evicting the least recently used entry when there is none
+  private allocate(): number {
+    if (this.header[FREE] === NONE) {
+      this.remove(this.header[TAIL]);
+    }
+
+    const slot = this.header[FREE];
+    this.header[FREE] = this.chain[slot];
+    return slot;
+  }
+
+  private remove(slot: number): void {
+    const bucket = this.hashes[slot] & (this.layout.bucketCount - 1);
+    if (this.buckets[bucket] === slot) {
+      this.buckets[bucket] = this.chain[slot];
+    } else {
+      let previous = this.buckets[bucket];
+      while (this.chain[previous] !== slot) {
+        previous = this.chain[previous];
+      }
+      this.chain[previous] = this.chain[slot];
+    }
+
+    this.unlink(slot);
+    this.chain[slot] = this.header[FREE];
+    this.header[FREE] = slot;
+    this.header[SIZE]--;
+  }
+
+  private linkAtHead(slot: number): void {
+    const head = this.header[HEAD];
+    this.prev[slot] = NONE;
+    this.next[slot] = head;
+
+    if (head !== NONE) {
+      this.prev[head] = slot;
+    } else {
+      this.header[TAIL] = slot;
+    }
+    this.header[HEAD] = slot;
+  }
+
+  private unlink(slot: number): void {
+    const prev = this.prev[slot];
+    const next = this.next[slot];
+
+    if (prev !== NONE) {
+      this.next[prev] = next;
+    } else {
+      this.header[HEAD] = next;
+    }
+
+    if (next !== NONE) {
+      this.prev[next] = prev;
+    } else {
+      this.header[TAIL] = prev;
+    }
+  }
+
+  private readValue(slot: number): V {
+    const start = this.layout.valuesOffset + slot * this.maxValueBytes;
+    const end = start + this.valueLengths[slot];
+
+    // Binary values are copied out, so later writes to the slot cannot change them
+    if (this.binary) {
+      return new Uint8Array(this.bytes.subarray(start, end)) as V;
+    }
+    return this.bytes.toString("utf8", start, end) as V;
+  }
+
+  private encodeKey(key: string): Buffer {
+    if (typeof key !== "string" || key === "") {
+      throw new Error("key must be a non-empty string");
+    }
+
+    const encoded = Buffer.from(key, "utf8");
+    if (encoded.length > this.maxKeyBytes) {
+      throw new Error(`key must be at most ${this.maxKeyBytes} bytes`);
+    }
+    return encoded;
+  }
+
+  private encodeValue(value: V): Buffer {
+    let encoded: Buffer;
+    if (this.binary) {
+      if (!(value instanceof Uint8Array)) {
+        throw new Error("value must be a Uint8Array");
+      }
+      encoded = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    } else {
+      if (typeof value !== "string") {
+        throw new Error("value must be a string");
+      }
+      encoded = Buffer.from(value, "utf8");
+    }
+
+    if (encoded.length > this.maxValueBytes) {
+      throw new Error(`value must be at most ${this.maxValueBytes} bytes`);
+    }
+    return encoded;
+  }
+}
@@ -0,0 +1,28 @@
+import { readFileIfExists, writeFileAtomic } from "./files.js";
+import type { Cache, DumpOptions, LoadOptions } from "./index.js";
+
+// Writes a snapshot of the cache as JSON. The file is written next to its final
+// location and renamed into place, so readers never see a partial snapshot.
+export async function saveSnapshot<T, K = string, E = T>(
+  cache: Cache<T, K>,
+  path: string,
+  options: DumpOptions<T, E> = {}
+): Promise<number> {
+  const snapshot = cache.dump(options);
+  await writeFileAtomic(path, JSON.stringify(snapshot));
+  return snapshot.entries.length;
+}
+
+// Loads a snapshot written by saveSnapshot. A missing file loads nothing.
+export async function loadSnapshot<T, K = string, E = T>(
+  cache: Cache<T, K>,
+  path: string,
+  options: LoadOptions<T, E> = {}
+): Promise<number> {
+  const contents = await readFileIfExists(path);
+  if (contents === null) {
+    return 0;
+  }
+
+  return cache.load(JSON.parse(contents), options);
+}
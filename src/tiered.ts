@@ -0,0 +1,181 @@
+import { Clock, monotonicClock } from "./clock.js";
+import { Cache } from "./index.js";
+import type { CacheOptions, SetOptions } from "./index.js";
+
+// Slower, larger storage behind the in-memory cache, such as disk or Redis
+export interface SecondaryStore<T, K = string> {
+  // Resolves to undefined when the key is missing or expired
+  get(key: K): Promise<T | undefined>;
+  // ttlMs is how long the entry should live, or Infinity if it never expires
+  set(key: K, value: T, ttlMs: number): Promise<void>;
+  delete(key: K): Promise<boolean>;
+  // Remaining lifetime in milliseconds, Infinity if it never expires, or null if missing
+  ttl(key: K): Promise<number | null>;
+}
+
+interface Promotion<T> {
+  promise: Promise<T | null>;
+}
+
+export interface TieredCacheOptions<T, K = string> extends CacheOptions<T, K> {
+  store: SecondaryStore<T, K>;
+  // Background store writes have no caller to reject, so their errors are reported here
+  onStoreError?: (error: unknown, key: K) => void;
+}
+
+// Keeps hot entries in a Cache and moves entries it evicts for capacity into a
+// secondary store. Memory misses fall through to the store and promote the entry
+// back into memory with its remaining TTL.
+export class TieredCache<T, K = string> {
+  readonly memory: Cache<T, K>;
+  readonly store: SecondaryStore<T, K>;
+  private onStoreError: ((error: unknown, key: K) => void) | null;
+  private keyHash: ((key: K) => unknown) | null;
+  private clock: Clock;
+  // Store operations run one after another per key, so a read never overtakes a write
+  private storeQueues: Map<unknown, Promise<void>>;
+  private promotions: Map<unknown, Promotion<T>>;
+
+  constructor(options: TieredCacheOptions<T, K>) {
+    const { store, onStoreError, ...cacheOptions } = options;
+    if (!store) {
+      throw new Error("store is required");
+    }
+
+    this.store = store;
+    this.onStoreError = onStoreError || null;
+    this.keyHash = options.keyHash || null;
+    this.clock = options.clock || monotonicClock;
+    this.storeQueues = new Map();
+    this.promotions = new Map();
+
+    const onEvict = options.onEvict;
+    this.memory = new Cache<T, K>({
+      ...cacheOptions,
+      onEvict: (key, value, reason, expiresAt) => {
+        if (reason === "lru") {
+          this.demote(key, value, expiresAt);
+        }
+        if (onEvict) {
+          onEvict(key, value, reason, expiresAt);
+        }
+      },
+    });
+  }
+
+  async get(key: K): Promise<T | null> {
+    const cached = this.memory.lookup(key);
+    if (cached.status === "fresh" || cached.status === "stale") {
+      return cached.value;
+    }
+    // A key known to have no value is not looked up in the store either
+    if (cached.status === "negative") {
+      return null;
+    }
+
+    const id = this.idOf(key);
+    let promotion = this.promotions.get(id);
+    if (!promotion) {
+      promotion = {} as Promotion<T>;
+      this.promotions.set(id, promotion);
+      promotion.promise = this.promote(key, id, promotion);
+    }
+    return promotion.promise;
+  }
+
+  // Stores the value in memory and drops any older copy from the store in the background
+  set(key: K, value: T, options: SetOptions = {}): void {
+    this.memory.set(key, value, options);
+
+    const id = this.idOf(key);
+    this.promotions.delete(id);
+    this.inBackground(key, id, () => this.store.delete(key));
+  }
+
+  async delete(key: K): Promise<boolean> {
+    const deleted = this.memory.delete(key);
+
+    const id = this.idOf(key);
+    this.promotions.delete(id);
+    const stored = await this.enqueue(id, () => this.store.delete(key));
+    return deleted || stored;
+  }
+
+  // Writes every live entry in memory to the store, e.g. before shutting down
+  async flush(): Promise<number> {
+    const writes: Promise<void>[] = [];
+
+    for (const [key, value] of this.memory.entries()) {
+      const expiresAt = this.memory.getExpiresAt(key) as number;
+      writes.push(this.enqueue(this.idOf(key), () => this.write(key, value, expiresAt)));
+    }
+
+    await Promise.all(writes);
+    await Promise.all(this.storeQueues.values());
+    return writes.length;
+  }
+
+  // Stops the in-memory cache. Entries that were not flushed are not written to the store.
+  destroy(): void {
+    this.promotions.clear();
+    this.memory.destroy();
+  }
+
+  private async promote(key: K, id: unknown, promotion: Promotion<T>): Promise<T | null> {
+    try {
+      // Wait for writes of this key that are still in flight
+      await this.storeQueues.get(id);
+      const [value, ttl] = await Promise.all([this.store.get(key), this.store.ttl(key)]);
+      if (value === undefined || ttl === null || ttl <= 0) {
+        return null;
+      }
+
+      // A set or delete while the store was read wins over the stored copy
+      if (this.promotions.get(id) === promotion) {
+        this.memory.set(key, value, { ttlMs: ttl });
+      }
+      return value;
+    } finally {
+      if (this.promotions.get(id) === promotion) {
+        this.promotions.delete(id);
+      }
+    }
+  }
+
+  private demote(key: K, value: T, expiresAt: number): void {
+    this.inBackground(key, this.idOf(key), () => this.write(key, value, expiresAt));
+  }
+
+  private inBackground<R>(key: K, id: unknown, operation: () => Promise<R>): void {
+    this.enqueue(id, operation).catch((error) => {
+      if (this.onStoreError) {
+        this.onStoreError(error, key);
+      }
+    });
+  }
+
+  private async write(key: K, value: T, expiresAt: number): Promise<void> {
+    const ttlMs = expiresAt - this.clock.now();
+    if (ttlMs > 0) {
+      await this.store.set(key, value, ttlMs);
+    }
+  }
+
+  private enqueue<R>(id: unknown, operation: () => Promise<R>): Promise<R> {
+    const previous = this.storeQueues.get(id) || Promise.resolve();
+    const result = previous.then(operation);
+    const settled = result.then(() => undefined, () => undefined);
+
+    this.storeQueues.set(id, settled);
+    settled.then(() => {
+      if (this.storeQueues.get(id) === settled) {
+        this.storeQueues.delete(id);
+      }
+    });
+    return result;
+  }
+
+  private idOf(key: K): unknown {
+    return this.keyHash ? this.keyHash(key) : key;
+  }
+}
@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
-import { Cache } from "../src/index";
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Cache, CacheSnapshot, ChangeEvent, EvictionReason, ManualClock, SweepReport } from "../src/index";
 
 describe("LRUCache", () => {
   describe("Constructor", () => {
@@ -72,9 +72,12 @@ describe("LRUCache", () => {
       );
     });
 
-    it("should throw error for non-string key", () => {
-      expect(() => cache.set(123 as unknown as string, "value")).toThrow(
-        "key must be a non-empty string"
+    it("should throw error for null or undefined key", () => {
+      expect(() => cache.set(null as unknown as string, "value")).toThrow(
+        "key must not be null or undefined"
+      );
+      expect(() => cache.set(undefined as unknown as string, "value")).toThrow(
+        "key must not be null or undefined"
       );
     });
 
@@ -85,12 +88,15 @@ describe("LRUCache", () => {
       expect(cache.size()).toBe(1);
     });
 
-    it("should update existing key ttl", async () => {
-      cache.set("key1", "value1");
-      await new Promise((resolve) => setTimeout(resolve, 50));
-      cache.set("key1", "value1");
-      await new Promise((resolve) => setTimeout(resolve, 100));
-      expect(cache.get("key1")).toBe("value1");
+    it("should update existing key ttl", () => {
+      const clock = new ManualClock();
+      const timed = new Cache<string>({ maxSize: 3, autoCleanup: false, ttlMs: 100, clock });
+      timed.set("key1", "value1");
+      clock.advance(50);
+      timed.set("key1", "value1");
+      clock.advance(80);
+      expect(timed.get("key1")).toBe("value1");
+      timed.destroy();
     });
 
     it("should handle multiple keys", () => {
@@ -120,44 +126,170 @@ describe("LRUCache", () => {
     });
   });
 
+  describe("Generic Keys", () => {
+    it("should accept number, symbol and object keys", () => {
+      const cache = new Cache<string, unknown>({ maxSize: 5, autoCleanup: false });
+      const symbol = Symbol("key");
+      const object = { id: 1 };
+
+      cache.set(1, "number");
+      cache.set(symbol, "symbol");
+      cache.set(object, "object");
+
+      expect(cache.get(1)).toBe("number");
+      expect(cache.get("1")).toBeNull();
+      expect(cache.get(symbol)).toBe("symbol");
+      expect(cache.get(object)).toBe("object");
+      expect(cache.get({ id: 1 })).toBeNull();
+      expect([...cache.keys()]).toEqual([object, symbol, 1]);
+
+      cache.destroy();
+    });
+
+    it("should look up tuple keys by value with keyHash", () => {
+      const cache = new Cache<string, [number, number]>({
+        maxSize: 5,
+        autoCleanup: false,
+        keyHash: ([tenantId, userId]) => `${tenantId}:${userId}`,
+      });
+
+      cache.set([7, 42], "user");
+
+      expect(cache.get([7, 42])).toBe("user");
+      expect(cache.has([7, 43])).toBe(false);
+      expect(cache.delete([7, 42])).toBe(true);
+      expect(cache.size()).toBe(0);
+
+      cache.destroy();
+    });
+
+    it("should tell colliding keys apart with keyEquals", () => {
+      const evicted: [number, number][] = [];
+      const cache = new Cache<string, [number, number]>({
+        maxSize: 5,
+        autoCleanup: false,
+        keyHash: ([a, b]) => a + b,
+        keyEquals: (x, y) => x[0] === y[0] && x[1] === y[1],
+        onEvict: (key) => evicted.push(key),
+      });
+
+      cache.set([1, 2], "first");
+
+      expect(cache.get([1, 2])).toBe("first");
+      expect(cache.get([2, 1])).toBeNull();
+
+      // Keys with the same hash are stored side by side
+      cache.set([2, 1], "second");
+      cache.set([0, 3], "third");
+      expect(cache.get([2, 1])).toBe("second");
+      expect(cache.get([1, 2])).toBe("first");
+      expect(cache.size()).toBe(3);
+
+      expect(cache.delete([1, 2])).toBe(true);
+      expect(cache.get([1, 2])).toBeNull();
+      expect(cache.get([0, 3])).toBe("third");
+      expect([...cache.keys()]).toEqual([[0, 3], [2, 1]]);
+      expect(evicted).toEqual([[1, 2]]);
+
+      cache.destroy();
+    });
+
+    it("should keep loads and failures of colliding keys apart", async () => {
+      const cache = new Cache<string, { id: number }>({
+        maxSize: 5,
+        autoCleanup: false,
+        rejectionTtlMs: 1000,
+        keyHash: (key) => key.id % 2,
+        keyEquals: (a, b) => a.id === b.id,
+      });
+      let release: () => void = () => undefined;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+
+      const first = cache.fetch({ id: 1 }, async (key) => {
+        await gate;
+        return `slow:${key.id}`;
+      });
+      const second = cache.fetch({ id: 3 }, async (key) => `fast:${key.id}`);
+      await expect(second).resolves.toBe("fast:3");
+      release();
+      await expect(first).resolves.toBe("slow:1");
+
+      await expect(cache.fetch({ id: 5 }, async () => {
+        throw new Error("boom");
+      })).rejects.toThrow("boom");
+      await expect(cache.fetch({ id: 7 }, async () => "ok")).resolves.toBe("ok");
+      expect(cache.get({ id: 1 })).toBe("slow:1");
+      expect(cache.size()).toBe(3);
+
+      cache.destroy();
+    });
+
+    it("should fetch with generic keys", async () => {
+      const cache = new Cache<string, number>({ maxSize: 5, autoCleanup: false, loader: (key) => `loaded:${key}` });
+
+      expect(await cache.fetch(42)).toBe("loaded:42");
+      expect(cache.get(42)).toBe("loaded:42");
+
+      cache.destroy();
+    });
+
+    it("should pass generic keys to callbacks", () => {
+      const keys: number[] = [];
+      const cache = new Cache<string, number>({
+        maxSize: 1,
+        autoCleanup: false,
+        onEvict: (key) => keys.push(key),
+      });
+
+      cache.set(1, "a");
+      cache.set(2, "b");
+
+      expect(keys).toEqual([1]);
+
+      cache.destroy();
+    });
+  });
+
   describe("TTL Expiration", () => {
+    let clock: ManualClock;
     let cache: Cache<string>;
 
     beforeEach(() => {
-      cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 100 });
+      clock = new ManualClock();
+      cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 100, clock, scheduler: clock });
     });
 
     afterEach(() => {
       cache.destroy();
     });
 
-    it("should return null for expired items on get", async () => {
+    it("should return null for expired items on get", () => {
       cache.set("key1", "value1");
       
       expect(cache.get("key1")).toBe("value1");
 
-      await new Promise((resolve) => setTimeout(resolve, 150));
+      clock.advance(150);
       expect(cache.get("key1")).toBeNull();
       expect(cache.size()).toBe(0);
     });
 
-    it("should clean multiple expired items", async () => {
+    it("should clean multiple expired items", () => {
       cache.set("key1", "value1");
       cache.set("key2", "value2");
       cache.set("key3", "value3");
 
-      await new Promise((resolve) => setTimeout(resolve, 150));
+      clock.advance(150);
       const cleaned = cache.cleanExpired();
 
       expect(cleaned).toBe(3);
       expect(cache.size()).toBe(0);
     });
 
-    it("should clean all items when all expired", async () => {
+    it("should clean all items when all expired", () => {
       cache.set("key1", "value1");
       cache.set("key2", "value2");
 
-      await new Promise((resolve) => setTimeout(resolve, 150));
+      clock.advance(150);
       const cleaned = cache.cleanExpired();
 
       expect(cleaned).toBe(2);
@@ -173,8 +305,8 @@ describe("LRUCache", () => {
       expect(cache.size()).toBe(2);
     });
 
-    it("should accept custom timestamp for cleanExpired", async () => {
-      const now = Date.now();
+    it("should accept custom timestamp for cleanExpired", () => {
+      const now = clock.now();
       cache.set("key1", "value1");
       
       // Clean with a future timestamp
@@ -182,238 +314,1958 @@ describe("LRUCache", () => {
       expect(cleaned).toBe(1);
       expect(cache.size()).toBe(0);
     });
+
+    it("should expire exactly at the ttl", () => {
+      cache.set("key1", "value1");
+
+      clock.advance(99);
+      expect(cache.get("key1")).toBe("value1");
+      clock.advance(1);
+      expect(cache.get("key1")).toBeNull();
+    });
   });
 
-  describe("LRU Eviction", () => {
-    let cache: Cache<string>;
+  describe("Sliding Expiration", () => {
+    let clock: ManualClock;
 
     beforeEach(() => {
-      cache = new Cache<string>({ maxSize: 3, autoCleanup: false });
+      clock = new ManualClock();
     });
 
-    afterEach(() => {
+    it("should push expiry out on every read", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 100, expiration: "sliding", clock });
+      cache.set("session", "s");
+
+      for (let i = 0; i < 5; i++) {
+        clock.advance(80);
+        expect(cache.get("session")).toBe("s");
+      }
+      expect(cache.getExpiresAt("session")).toBe(clock.now() + 100);
+
+      clock.advance(100);
+      expect(cache.get("session")).toBeNull();
+
       cache.destroy();
     });
 
-    it("should evict the least recently used item when at capacity", () => {
-      cache.set("key1", "value1");
-      cache.set("key2", "value2");
-      cache.set("key3", "value3");
+    it("should not extend expiry on peek or has", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 100, expiration: "sliding", clock });
+      cache.set("session", "s");
 
-      expect(cache.size()).toBe(3);
+      clock.advance(80);
+      expect(cache.peek("session")).toBe("s");
+      expect(cache.has("session")).toBe(true);
+      clock.advance(20);
 
-      cache.set("key4", "value4");
+      expect(cache.get("session")).toBeNull();
+      cache.destroy();
+    });
 
-      expect(cache.size()).toBe(3);
-      expect(cache.get("key1")).toBeNull(); // Should be evicted (shortest TTL)
-      expect(cache.get("key2")).toBe("value2");
-      expect(cache.get("key3")).toBe("value3");
-      expect(cache.get("key4")).toBe("value4");
+    it("should cap the lifetime of hot entries at maxAgeMs", () => {
+      const cache = new Cache<string>({
+        maxSize: 5,
+        autoCleanup: false,
+        ttlMs: 100,
+        expiration: "sliding",
+        maxAgeMs: 250,
+        clock,
+      });
+      cache.set("session", "s");
+
+      clock.advance(80);
+      cache.get("session");
+      clock.advance(80);
+      cache.get("session");
+      clock.advance(80);
+      expect(cache.get("session")).toBe("s");
+      expect(cache.getExpiresAt("session")).toBe(250);
+
+      clock.advance(10);
+      expect(cache.get("session")).toBeNull();
+      cache.destroy();
     });
-  });
 
-  describe("Delete Operation", () => {
-    let cache: Cache<string>;
+    it("should measure maxAgeMs from the first insertion", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 100, maxAgeMs: 150, clock });
+      cache.set("key", "1");
 
-    beforeEach(() => {
-      cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+      clock.advance(90);
+      cache.set("key", "2");
+      expect(cache.getExpiresAt("key")).toBe(150);
+
+      clock.advance(60);
+      expect(cache.get("key")).toBeNull();
+
+      // Once expired, the next set starts a new lifetime
+      cache.set("key", "3");
+      expect(cache.getExpiresAt("key")).toBe(250);
+      cache.destroy();
     });
 
-    afterEach(() => {
+    it("should allow per-entry overrides", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 100, clock });
+      cache.set("absolute", "a");
+      cache.set("sliding", "s", { expiration: "sliding" });
+      cache.set("capped", "c", { expiration: "sliding", maxAgeMs: 120 });
+
+      clock.advance(60);
+      cache.get("absolute");
+      cache.get("sliding");
+      cache.get("capped");
+      clock.advance(60);
+
+      expect(cache.get("absolute")).toBeNull();
+      expect(cache.get("sliding")).toBe("s");
+      expect(cache.get("capped")).toBeNull();
       cache.destroy();
     });
 
-    it("should delete existing key", () => {
-      cache.set("key1", "value1");
+    it("should let the sweeper remove idle sliding entries", () => {
+      const cache = new Cache<string>({
+        maxSize: 5,
+        ttlMs: 100,
+        expiration: "sliding",
+        cleanupInterval: 1000,
+        clock,
+        scheduler: clock,
+      });
+      cache.set("active", "a");
+      cache.set("idle", "i");
+
+      // The interval sweep at 1000ms runs while "active" is still being read
+      for (let i = 0; i < 12; i++) {
+        clock.advance(90);
+        cache.get("active");
+      }
+      clock.advance(50);
+
+      expect(cache.peek("active")).toBe("a");
+      expect(cache.peek("idle")).toBeNull();
       expect(cache.size()).toBe(1);
+      cache.destroy();
+    });
 
-      const deleted = cache.delete("key1");
-      expect(deleted).toBe(true);
-      expect(cache.size()).toBe(0);
-      expect(cache.get("key1")).toBeNull();
+    it("should validate expiration options", () => {
+      expect(() => new Cache({ maxSize: 1, expiration: "idle" as "sliding" }))
+        .toThrow("expiration must be 'absolute' or 'sliding'");
+      expect(() => new Cache({ maxSize: 1, maxAgeMs: 0 })).toThrow("maxAgeMs must be a positive number or Infinity");
+
+      const cache = new Cache<string>({ maxSize: 1, autoCleanup: false });
+      expect(() => cache.set("a", "1", { maxAgeMs: -1 })).toThrow("maxAgeMs must be a positive number or Infinity");
+      cache.destroy();
     });
+  });
 
-    it("should return false when deleting non-existent key", () => {
-      const deleted = cache.delete("nonexistent");
-      expect(deleted).toBe(false);
-      expect(cache.size()).toBe(0);
+  describe("Clock and Scheduler", () => {
+    it("should run due background cleanups synchronously when the clock advances", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({ maxSize: 5, ttlMs: 100, cleanupInterval: 1000, clock, scheduler: clock });
+      cache.set("short", "1");
+      cache.set("long", "2", { ttlMs: 5000 });
+
+      clock.advance(999);
+      expect(cache.size()).toBe(2);
+
+      clock.advance(1);
+      expect(cache.size()).toBe(1);
+      expect(cache.peek("long")).toBe("2");
+
+      cache.destroy();
+      expect(clock.pending()).toBe(0);
     });
 
-    it("should handle deleting from middle of cache", () => {
-      cache.set("key1", "value1");
-      cache.set("key2", "value2");
-      cache.set("key3", "value3");
+    it("should continue sliced sweeps within the same advance", () => {
+      const clock = new ManualClock();
+      const reports: SweepReport[] = [];
+      const cache = new Cache<number>({
+        maxSize: 100,
+        ttlMs: 10,
+        cleanupInterval: 1000,
+        sweepBatchSize: 10,
+        onSweep: (report) => reports.push(report),
+        clock,
+        scheduler: clock,
+      });
+      for (let i = 0; i < 35; i++) {
+        cache.set(`key${i}`, i);
+      }
 
-      cache.delete("key2");
+      clock.advance(1000);
 
-      expect(cache.size()).toBe(2);
-      expect(cache.get("key1")).toBe("value1");
-      expect(cache.get("key2")).toBeNull();
-      expect(cache.get("key3")).toBe("value3");
+      expect(cache.size()).toBe(0);
+      expect(reports.map((report) => report.removed)).toEqual([10, 10, 10, 5]);
+      cache.destroy();
     });
 
-    it("should handle deleting head node", () => {
+    it("should not expire entries when the wall clock jumps", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 60000 });
       cache.set("key1", "value1");
-      cache.set("key2", "value2");
-      cache.set("key3", "value3");
 
-      cache.delete("key3"); // Most recent
+      const dateNow = jest.spyOn(Date, "now").mockReturnValue(Date.now() + 24 * 60 * 60 * 1000);
+      try {
+        expect(cache.get("key1")).toBe("value1");
+      } finally {
+        dateNow.mockRestore();
+      }
 
-      expect(cache.size()).toBe(2);
-      expect(cache.get("key1")).toBe("value1");
-      expect(cache.get("key2")).toBe("value2");
+      cache.destroy();
     });
 
-    it("should handle deleting tail node", () => {
-      cache.set("key1", "value1");
-      cache.set("key2", "value2");
-      cache.set("key3", "value3");
+    it("should run manual timers in due order and repeat intervals", () => {
+      const clock = new ManualClock(1000);
+      const calls: string[] = [];
 
-      cache.delete("key1"); // Least recent
+      clock.setTimeout(() => calls.push(`late@${clock.now()}`), 30);
+      clock.setTimeout(() => calls.push(`early@${clock.now()}`), 10);
+      const interval = clock.setInterval(() => calls.push(`tick@${clock.now()}`), 20);
+      const cancelled = clock.setTimeout(() => calls.push("cancelled"), 5);
+      clock.clearTimeout(cancelled);
 
-      expect(cache.size()).toBe(2);
-      expect(cache.get("key2")).toBe("value2");
-      expect(cache.get("key3")).toBe("value3");
+      clock.advance(45);
+      clock.clearInterval(interval);
+      clock.advance(100);
+
+      expect(calls).toEqual(["early@1010", "tick@1020", "late@1030", "tick@1040"]);
+      expect(clock.now()).toBe(1145);
+      expect(clock.pending()).toBe(0);
+      expect(() => clock.advance(-1)).toThrow("ms must be a non-negative finite number");
     });
   });
 
-  describe("Size and Clear Operations", () => {
+  describe("Per-entry TTL", () => {
     let cache: Cache<string>;
 
     beforeEach(() => {
-      cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+      cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 100 });
     });
 
     afterEach(() => {
       cache.destroy();
     });
 
-    it("should return correct size", () => {
+    it("should override the default ttl for a single entry", () => {
+      const clock = new ManualClock();
+      const timed = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 100, clock });
+      timed.set("short", "value1", { ttlMs: 20 });
+      timed.set("default", "value2");
+
+      clock.advance(50);
+
+      expect(timed.get("short")).toBeNull();
+      expect(timed.get("default")).toBe("value2");
+      timed.destroy();
+    });
+
+    it("should keep entries with an infinite ttl", () => {
+      cache.set("forever", "value1", { ttlMs: Infinity });
+      cache.set("default", "value2");
+
+      const cleaned = cache.cleanExpired(Date.now() + 1000000);
+
+      expect(cleaned).toBe(1);
+      expect(cache.get("forever")).toBe("value1");
+    });
+
+    it("should replace the ttl when an entry is overwritten", () => {
+      cache.set("key1", "value1", { ttlMs: Infinity });
+      cache.set("key1", "value2", { ttlMs: 50 });
+
+      expect(cache.cleanExpired(Date.now() + 100)).toBe(1);
       expect(cache.size()).toBe(0);
+    });
 
-      cache.set("key1", "value1");
-      expect(cache.size()).toBe(1);
+    it("should only clean entries whose ttl has elapsed", () => {
+      const now = Date.now();
+      cache.set("a", "1", { ttlMs: 300 });
+      cache.set("b", "2", { ttlMs: 100 });
+      cache.set("c", "3", { ttlMs: 200 });
 
-      cache.set("key2", "value2");
-      expect(cache.size()).toBe(2);
+      expect(cache.cleanExpired(now + 150)).toBe(1);
+      expect(cache.get("a")).toBe("1");
+      expect(cache.get("b")).toBeNull();
+      expect(cache.get("c")).toBe("3");
 
-      cache.delete("key1");
-      expect(cache.size()).toBe(1);
+      expect(cache.cleanExpired(now + 250)).toBe(1);
+      expect(cache.get("c")).toBeNull();
     });
 
-    it("should clear all items", () => {
+    it("should throw error for invalid ttl", () => {
+      expect(() => cache.set("key1", "value1", { ttlMs: 0 })).toThrow(
+        "ttlMs must be a positive number or Infinity"
+      );
+      expect(() => cache.set("key1", "value1", { ttlMs: -10 })).toThrow(
+        "ttlMs must be a positive number or Infinity"
+      );
+      expect(() => cache.set("key1", "value1", { ttlMs: NaN })).toThrow(
+        "ttlMs must be a positive number or Infinity"
+      );
+    });
+  });
+
+  describe("Non-mutating Reads", () => {
+    let cache: Cache<string>;
+    let clock: ManualClock;
+
+    beforeEach(() => {
+      clock = new ManualClock();
+      cache = new Cache<string>({ maxSize: 2, autoCleanup: false, ttlMs: 1000, clock });
+    });
+
+    afterEach(() => {
+      cache.destroy();
+    });
+
+    it("should report whether a key is present", () => {
       cache.set("key1", "value1");
-      cache.set("key2", "value2");
-      cache.set("key3", "value3");
 
-      expect(cache.size()).toBe(3);
+      expect(cache.has("key1")).toBe(true);
+      expect(cache.has("key2")).toBe(false);
+    });
 
-      cache.clear();
+    it("should peek at values without changing eviction order", () => {
+      cache.set("a", "1");
+      cache.set("b", "2");
 
-      expect(cache.size()).toBe(0);
-      expect(cache.get("key1")).toBeNull();
-      expect(cache.get("key2")).toBeNull();
-      expect(cache.get("key3")).toBeNull();
+      expect(cache.peek("a")).toBe("1");
+      expect(cache.has("a")).toBe(true);
+      cache.set("c", "3");
+
+      expect(cache.peek("a")).toBeNull();
+      expect(cache.peek("b")).toBe("2");
     });
 
-    it("should clear empty cache without error", () => {
-      expect(() => cache.clear()).not.toThrow();
-      expect(cache.size()).toBe(0);
+    it("should not count peeks in stats", () => {
+      cache.set("a", "1");
+      cache.peek("a");
+      cache.peek("missing");
+      cache.has("a");
+
+      expect(cache.stats().hits).toBe(0);
+      expect(cache.stats().misses).toBe(0);
     });
 
-    it("should allow setting items after clear", () => {
-      cache.set("key1", "value1");
-      cache.clear();
+    it("should treat expired entries as absent without removing them", () => {
+      cache.set("a", "1", { ttlMs: 10 });
+      clock.advance(20);
 
-      cache.set("key2", "value2");
-      expect(cache.get("key2")).toBe("value2");
+      expect(cache.has("a")).toBe(false);
+      expect(cache.peek("a")).toBeNull();
+      expect(cache.getRemainingTtl("a")).toBeNull();
+      expect(cache.getExpiresAt("a")).toBeNull();
       expect(cache.size()).toBe(1);
     });
-  });
 
-  describe("Background Cleanup", () => {
-    it("should automatically clean expired items with autoCleanup enabled", async () => {
-      const cache = new Cache<string>({ 
-        maxSize: 5,
-        cleanupInterval: 100,
-        autoCleanup: true,
-        ttlMs: 100,
-      });
+    it("should report expiry times", () => {
+      cache.set("a", "1", { ttlMs: 500 });
+      clock.advance(200);
 
-      cache.set("key1", "value1");
-      cache.set("key2", "value2");
+      expect(cache.getExpiresAt("a")).toBe(500);
+      expect(cache.getRemainingTtl("a")).toBe(300);
+    });
 
-      expect(cache.size()).toBe(2);
+    it("should report an infinite ttl for entries that never expire", () => {
+      cache.set("a", "1", { ttlMs: Infinity });
 
-      // Wait for cleanup interval
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      expect(cache.getRemainingTtl("a")).toBe(Infinity);
+      expect(cache.getExpiresAt("a")).toBe(Infinity);
+    });
 
-      expect(cache.size()).toBe(0);
-      expect(cache.get("key1")).toBeNull();
-      expect(cache.get("key2")).toBeNull();
+    it("should return null for missing keys", () => {
+      expect(cache.getRemainingTtl("missing")).toBeNull();
+      expect(cache.getExpiresAt("missing")).toBeNull();
+    });
+  });
 
-      cache.destroy();
-    }, 10000);
+  describe("Iteration", () => {
+    let cache: Cache<string>;
+    let clock: ManualClock;
 
-    it("should not run cleanup when autoCleanup is false", async () => {
-      const cache = new Cache<string>({ 
-        maxSize: 5,
-        cleanupInterval: 100,
-        autoCleanup: false,
-      });
+    beforeEach(() => {
+      clock = new ManualClock();
+      cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 1000, clock });
+      cache.set("a", "1");
+      cache.set("b", "2");
+      cache.set("c", "3");
+    });
 
-      cache.set("key1", "value1");
+    afterEach(() => {
+      cache.destroy();
+    });
+
+    it("should walk from most- to least-recently used", () => {
+      cache.get("a");
+
+      expect([...cache.keys()]).toEqual(["a", "c", "b"]);
+      expect([...cache.values()]).toEqual(["1", "3", "2"]);
+      expect([...cache.entries()]).toEqual([["a", "1"], ["c", "3"], ["b", "2"]]);
+      expect([...cache]).toEqual([["a", "1"], ["c", "3"], ["b", "2"]]);
+    });
+
+    it("should walk in reverse", () => {
+      expect([...cache.keys({ reverse: true })]).toEqual(["a", "b", "c"]);
+    });
+
+    it("should not change eviction order", () => {
+      for (const key of cache.keys({ reverse: true })) {
+        expect(key).toBeDefined();
+      }
+
+      cache.set("d", "4");
+      cache.set("e", "5");
+      cache.set("f", "6");
+
+      expect(cache.has("a")).toBe(false);
+      expect(cache.has("b")).toBe(true);
+    });
+
+    it("should skip expired entries", () => {
+      cache.set("short", "x", { ttlMs: 5 });
+      clock.advance(10);
+
+      expect([...cache.keys()]).toEqual(["c", "b", "a"]);
+      expect(cache.size()).toBe(4);
+    });
+
+    it("should stay safe when entries are deleted during the walk", () => {
+      const seen: string[] = [];
+      for (const key of cache.keys()) {
+        seen.push(key);
+        cache.delete("b");
+        cache.set("reused", "x");
+      }
+
+      expect(seen).toEqual(["c", "a"]);
+    });
+
+    it("should call forEach for each entry", () => {
+      const seen: [string, string][] = [];
+      cache.forEach((value, key, self) => {
+        expect(self).toBe(cache);
+        seen.push([key, value]);
+      });
+
+      expect(seen).toEqual([["c", "3"], ["b", "2"], ["a", "1"]]);
+    });
+  });
+
+  describe("LRU Eviction", () => {
+    let cache: Cache<string>;
+
+    beforeEach(() => {
+      cache = new Cache<string>({ maxSize: 3, autoCleanup: false });
+    });
+
+    afterEach(() => {
+      cache.destroy();
+    });
+
+    it("should evict the least recently used item when at capacity", () => {
+      cache.set("key1", "value1");
+      cache.set("key2", "value2");
+      cache.set("key3", "value3");
+
+      expect(cache.size()).toBe(3);
+
+      cache.set("key4", "value4");
+
+      expect(cache.size()).toBe(3);
+      expect(cache.get("key1")).toBeNull(); // Should be evicted (shortest TTL)
+      expect(cache.get("key2")).toBe("value2");
+      expect(cache.get("key3")).toBe("value3");
+      expect(cache.get("key4")).toBe("value4");
+    });
+  });
+
+  describe("Byte Size Limits", () => {
+    it("should evict least recently used items until under maxBytes", () => {
+      const cache = new Cache<string>({
+        maxSize: 10,
+        maxBytes: 10,
+        autoCleanup: false,
+        sizeCalculation: (value) => value.length,
+      });
+
+      cache.set("a", "aaaa");
+      cache.set("b", "bbbb");
+      expect(cache.bytes()).toBe(8);
+
+      cache.get("a");
+      cache.set("c", "cccccc");
+
+      expect(cache.get("b")).toBeNull();
+      expect(cache.get("a")).toBe("aaaa");
+      expect(cache.get("c")).toBe("cccccc");
+      expect(cache.bytes()).toBe(10);
+
+      cache.destroy();
+    });
+
+    it("should evict several items for one large entry", () => {
+      const cache = new Cache<string>({ maxSize: 10, maxBytes: 10, autoCleanup: false });
+
+      cache.set("a", "1", { size: 3 });
+      cache.set("b", "2", { size: 3 });
+      cache.set("c", "3", { size: 3 });
+      cache.set("d", "4", { size: 9 });
+
+      expect(cache.size()).toBe(1);
+      expect(cache.bytes()).toBe(9);
+      expect(cache.get("d")).toBe("4");
+
+      cache.destroy();
+    });
+
+    it("should prefer an explicit size over sizeCalculation", () => {
+      const cache = new Cache<string>({
+        maxSize: 10,
+        maxBytes: 100,
+        autoCleanup: false,
+        sizeCalculation: () => 50,
+      });
+
+      cache.set("a", "1", { size: 5 });
+      expect(cache.bytes()).toBe(5);
+
+      cache.destroy();
+    });
+
+    it("should track size changes when an entry is overwritten", () => {
+      const cache = new Cache<string>({ maxSize: 10, maxBytes: 10, autoCleanup: false });
+
+      cache.set("a", "1", { size: 4 });
+      cache.set("b", "2", { size: 4 });
+      cache.set("b", "3", { size: 8 });
+
+      expect(cache.get("a")).toBeNull();
+      expect(cache.get("b")).toBe("3");
+      expect(cache.bytes()).toBe(8);
+
+      cache.delete("b");
+      expect(cache.bytes()).toBe(0);
+
+      cache.destroy();
+    });
+
+    it("should enforce both maxSize and maxBytes", () => {
+      const cache = new Cache<string>({ maxSize: 2, maxBytes: 100, autoCleanup: false });
+
+      cache.set("a", "1", { size: 1 });
+      cache.set("b", "2", { size: 1 });
+      cache.set("c", "3", { size: 1 });
+
+      expect(cache.size()).toBe(2);
+      expect(cache.bytes()).toBe(2);
+      expect(cache.get("a")).toBeNull();
+
+      cache.destroy();
+    });
+
+    it("should reject entries larger than maxBytes", () => {
+      const cache = new Cache<string>({ maxSize: 10, maxBytes: 10, autoCleanup: false });
+
+      cache.set("a", "1", { size: 5 });
+
+      expect(() => cache.set("b", "2", { size: 11 })).toThrow("entry size exceeds maxBytes");
+      expect(() => cache.set("a", "2", { size: 11 })).toThrow("entry size exceeds maxBytes");
+      expect(cache.get("a")).toBe("1");
+      expect(cache.bytes()).toBe(5);
+
+      cache.destroy();
+    });
+
+    it("should require a size when maxBytes is set", () => {
+      const cache = new Cache<string>({ maxSize: 10, maxBytes: 10, autoCleanup: false });
+
+      expect(() => cache.set("a", "1")).toThrow("size or sizeCalculation is required when maxBytes is set");
+      expect(() => cache.set("a", "1", { size: -1 })).toThrow("size must be a non-negative finite number");
+
+      cache.destroy();
+    });
+
+    it("should throw error for invalid maxBytes", () => {
+      expect(() => new Cache<string>({ maxSize: 10, maxBytes: 0 })).toThrow(
+        "maxBytes must be a positive finite number"
+      );
+      expect(() => new Cache<string>({ maxSize: 10, maxBytes: Infinity })).toThrow(
+        "maxBytes must be a positive finite number"
+      );
+    });
+
+    it("should reset bytes on clear", () => {
+      const cache = new Cache<string>({ maxSize: 10, maxBytes: 10, autoCleanup: false });
+
+      cache.set("a", "1", { size: 5 });
+      cache.clear();
+
+      expect(cache.bytes()).toBe(0);
+
+      cache.destroy();
+    });
+  });
+
+  describe("Fetch", () => {
+    let cache: Cache<string>;
+
+    beforeEach(() => {
+      cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+    });
+
+    afterEach(() => {
+      cache.destroy();
+    });
+
+    it("should load and cache a missing value", async () => {
+      const value = await cache.fetch("key1", (key) => `loaded:${key}`);
+
+      expect(value).toBe("loaded:key1");
+      expect(cache.get("key1")).toBe("loaded:key1");
+    });
+
+    it("should return cached values without calling the loader", async () => {
+      let calls = 0;
+      cache.set("key1", "value1");
+
+      const value = await cache.fetch("key1", () => {
+        calls++;
+        return "loaded";
+      });
+
+      expect(value).toBe("value1");
+      expect(calls).toBe(0);
+    });
+
+    it("should share one load between concurrent callers", async () => {
+      let calls = 0;
+      const loader = async () => {
+        calls++;
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return "loaded";
+      };
+
+      const values = await Promise.all([
+        cache.fetch("key1", loader),
+        cache.fetch("key1", loader),
+        cache.fetch("key1", loader),
+      ]);
+
+      expect(values).toEqual(["loaded", "loaded", "loaded"]);
+      expect(calls).toBe(1);
+    });
+
+    it("should use the constructor loader", async () => {
+      const loading = new Cache<string>({ maxSize: 5, autoCleanup: false, loader: (key) => key.toUpperCase() });
+
+      expect(await loading.fetch("abc")).toBe("ABC");
+
+      loading.destroy();
+    });
+
+    it("should reject without a loader", async () => {
+      await expect(cache.fetch("key1")).rejects.toThrow("fetch requires a loader");
+    });
+
+    it("should apply set options to the loaded value", async () => {
+      await cache.fetch("key1", () => "loaded", { ttlMs: 50 });
+
+      expect(cache.cleanExpired(Date.now() + 100)).toBe(1);
+    });
+
+    it("should not cache rejected loads by default", async () => {
+      let calls = 0;
+      const loader = () => {
+        calls++;
+        throw new Error("backend down");
+      };
+
+      await expect(cache.fetch("key1", loader)).rejects.toThrow("backend down");
+      await expect(cache.fetch("key1", loader)).rejects.toThrow("backend down");
+
+      expect(calls).toBe(2);
+      expect(cache.size()).toBe(0);
+    });
+
+    it("should cache rejected loads when rejectionTtlMs is set", async () => {
+      const failing = new Cache<string>({ maxSize: 5, autoCleanup: false, rejectionTtlMs: 1000 });
+      let calls = 0;
+      const loader = () => {
+        calls++;
+        throw new Error("backend down");
+      };
+
+      await expect(failing.fetch("key1", loader)).rejects.toThrow("backend down");
+      await expect(failing.fetch("key1", loader)).rejects.toThrow("backend down");
+      expect(calls).toBe(1);
+
+      failing.delete("key1");
+      await expect(failing.fetch("key1", loader)).rejects.toThrow("backend down");
+      expect(calls).toBe(2);
+
+      failing.destroy();
+    });
+
+    it("should reject an aborted caller while others keep waiting", async () => {
+      let signal: AbortSignal | undefined;
+      let finish: (value: string) => void = () => undefined;
+      const loader = (_key: string, context: { signal: AbortSignal }) => {
+        signal = context.signal;
+        return new Promise<string>((resolve) => {
+          finish = resolve;
+        });
+      };
+
+      const controller = new AbortController();
+      const aborted = cache.fetch("key1", loader, { signal: controller.signal });
+      await Promise.resolve();
+      const waiting = cache.fetch("key1", loader);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      controller.abort(new Error("caller gone"));
+      await expect(aborted).rejects.toThrow("caller gone");
+      expect(signal?.aborted).toBe(false);
+
+      finish("loaded");
+      expect(await waiting).toBe("loaded");
+      expect(cache.get("key1")).toBe("loaded");
+    });
+
+    it("should abort the load once every caller has aborted", async () => {
+      let signal: AbortSignal | undefined;
+      let finish: (value: string) => void = () => undefined;
+      const loader = (_key: string, context: { signal: AbortSignal }) => {
+        signal = context.signal;
+        return new Promise<string>((resolve) => {
+          finish = resolve;
+        });
+      };
+
+      const controller = new AbortController();
+      const pending = cache.fetch("key1", loader, { signal: controller.signal });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      controller.abort();
+      await expect(pending).rejects.toBeDefined();
+      expect(signal?.aborted).toBe(true);
+
+      // A loader that ignores the signal cannot write its late value back
+      finish("late");
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(cache.get("key1")).toBeNull();
+    });
+
+    it("should reject immediately for an already aborted signal", async () => {
+      let calls = 0;
+      const controller = new AbortController();
+      controller.abort(new Error("already aborted"));
+
+      await expect(
+        cache.fetch("key1", () => {
+          calls++;
+          return "loaded";
+        }, { signal: controller.signal })
+      ).rejects.toThrow("already aborted");
+      expect(calls).toBe(0);
+    });
+
+    it("should keep an explicit set made while a load is in flight", async () => {
+      const pending = cache.fetch("key1", async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return "loaded";
+      });
+
+      cache.set("key1", "explicit");
+
+      expect(await pending).toBe("loaded");
+      expect(cache.get("key1")).toBe("explicit");
+    });
+  });
+
+  describe("Negative Caching", () => {
+    it("should tell misses, negative hits and value hits apart", () => {
+      const cache = new Cache<string | null>({ maxSize: 10, autoCleanup: false });
+      cache.set("null", null);
+      cache.setNegative("missing");
+
+      expect(cache.lookup("null")).toEqual({ status: "fresh", value: null });
+      expect(cache.lookup("missing")).toEqual({ status: "negative", value: null });
+      expect(cache.lookup("unknown")).toEqual({ status: "miss", value: null });
+
+      cache.destroy();
+    });
+
+    it("should treat negative entries as absent for plain reads", () => {
+      const cache = new Cache<string>({ maxSize: 10, autoCleanup: false });
+      cache.setNegative("missing");
+
+      expect(cache.get("missing")).toBeNull();
+      expect(cache.peek("missing")).toBeNull();
+      expect(cache.has("missing")).toBe(false);
+      expect(cache.getExpiresAt("missing")).toBeNull();
+      expect([...cache.keys()]).toEqual([]);
+      expect(cache.dump().entries).toEqual([]);
+      expect(cache.size()).toBe(1);
+
+      cache.destroy();
+    });
+
+    it("should expire negative entries after negativeTtlMs without serving them stale", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({
+        maxSize: 10,
+        autoCleanup: false,
+        ttlMs: 1000,
+        negativeTtlMs: 100,
+        staleWhileRevalidateMs: 1000,
+        clock,
+      });
+      cache.setNegative("a");
+      cache.setNegative("b", { ttlMs: 300 });
+
+      clock.advance(100);
+      expect(cache.lookup("a").status).toBe("miss");
+      expect(cache.lookup("b").status).toBe("negative");
+
+      cache.destroy();
+    });
+
+    it("should peek without touching stats or recency", () => {
+      const cache = new Cache<string>({ maxSize: 2, autoCleanup: false });
+      cache.set("a", "1");
+      cache.set("b", "2");
+
+      expect(cache.lookup("a", { peek: true })).toEqual({ status: "fresh", value: "1" });
+      cache.set("c", "3");
+
+      expect(cache.has("a")).toBe(false);
+      expect(cache.stats().hits).toBe(0);
+      cache.destroy();
+    });
+
+    it("should store undefined loader results as negative entries", async () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({ maxSize: 10, autoCleanup: false, negativeTtlMs: 100, clock });
+      let calls = 0;
+      const loader = async (): Promise<string> => {
+        calls++;
+        return undefined as unknown as string;
+      };
+
+      expect(await cache.fetch("missing", loader)).toBeUndefined();
+      expect(await cache.fetch("missing", loader)).toBeUndefined();
+      expect(calls).toBe(1);
+      expect(cache.lookup("missing", { peek: true }).status).toBe("negative");
+      expect(cache.stats().negativeHits).toBe(1);
+
+      clock.advance(100);
+      await cache.fetch("missing", loader);
+      expect(calls).toBe(2);
+
+      cache.destroy();
+    });
+
+    it("should report remembered loader errors", async () => {
+      const cache = new Cache<string>({ maxSize: 10, autoCleanup: false, rejectionTtlMs: 1000 });
+      const error = new Error("backend down");
+
+      await expect(cache.fetch("a", async () => { throw error; })).rejects.toBe(error);
+
+      expect(cache.lookup("a")).toEqual({ status: "error", value: null, error });
+      expect(cache.lookup("a", { peek: true })).toEqual({ status: "error", value: null, error });
+      cache.destroy();
+    });
+
+    it("should replace negative entries with values and not report them to onEvict", () => {
+      const evicted: string[] = [];
+      const cache = new Cache<string>({ maxSize: 10, autoCleanup: false, onEvict: (key) => evicted.push(key) });
+      cache.setNegative("a");
+      cache.set("a", "found");
+
+      expect(cache.lookup("a")).toEqual({ status: "fresh", value: "found" });
+
+      cache.setNegative("b");
+      cache.delete("b");
+      expect(evicted).toEqual([]);
+      cache.destroy();
+    });
+  });
+
+  describe("Stale Serving", () => {
+    let clock: ManualClock;
+    // Lets background loads settle; time itself only moves through the clock
+    const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+    beforeEach(() => {
+      clock = new ManualClock();
+    });
+
+    it("should serve stale values and refresh them in the background", async () => {
+      let version = 0;
+      const cache = new Cache<string>({
+        maxSize: 5,
+        autoCleanup: false,
+        ttlMs: 20,
+        staleWhileRevalidateMs: 1000,
+        loader: async () => `v${++version}`,
+        clock,
+      });
+
+      cache.set("key1", "v0");
+      clock.advance(30);
+
+      expect(cache.lookup("key1")).toEqual({ status: "stale", value: "v0" });
+      expect(cache.get("key1")).toBe("v0");
+
+      await settle();
+      expect(cache.lookup("key1")).toEqual({ status: "fresh", value: "v1" });
+      expect(version).toBe(1);
+
+      cache.destroy();
+    });
+
+    it("should treat values past the stale window as misses", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 10, staleWhileRevalidateMs: 10, clock });
+
+      cache.set("key1", "value1");
+      clock.advance(30);
+
+      expect(cache.lookup("key1")).toEqual({ status: "miss", value: null });
+      expect(cache.size()).toBe(0);
+
+      cache.destroy();
+    });
+
+    it("should keep stale values until the stale window ends", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 100, staleWhileRevalidateMs: 100, clock });
+
+      cache.set("key1", "value1");
+
+      expect(cache.cleanExpired(150)).toBe(0);
+      expect(cache.cleanExpired(250)).toBe(1);
+
+      cache.destroy();
+    });
+
+    it("should return stale values from fetch without waiting for the loader", async () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 20, staleWhileRevalidateMs: 1000, clock });
+      let calls = 0;
+      let release: () => void = () => undefined;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+
+      cache.set("key1", "old");
+      clock.advance(30);
+
+      const value = await cache.fetch("key1", async () => {
+        calls++;
+        await gate;
+        return "new";
+      });
+      expect(value).toBe("old");
+      expect(calls).toBe(1);
+
+      release();
+      await settle();
+      expect(cache.get("key1")).toBe("new");
+
+      cache.destroy();
+    });
+
+    it("should report callback errors from a background refresh to onCleanupError", async () => {
+      const errors: unknown[] = [];
+      const cache = new Cache<string>({
+        maxSize: 5,
+        autoCleanup: false,
+        ttlMs: 20,
+        staleWhileRevalidateMs: 1000,
+        loader: async () => "new",
+        onEvict: (_key, _value, reason) => {
+          if (reason === "replaced") throw new Error("onEvict boom");
+        },
+        onCleanupError: (error) => errors.push(error),
+        clock,
+      });
+
+      cache.set("key1", "old");
+      clock.advance(30);
+      expect(cache.get("key1")).toBe("old");
+
+      await settle();
+      expect(errors).toEqual([new Error("onEvict boom")]);
+      expect(cache.get("key1")).toBe("new");
+
+      cache.destroy();
+    });
+
+    it("should keep serving stale values when the refresh fails", async () => {
+      let calls = 0;
+      const cache = new Cache<string>({
+        maxSize: 5,
+        autoCleanup: false,
+        ttlMs: 20,
+        staleWhileRevalidateMs: 20,
+        staleIfErrorMs: 1000,
+        loader: async () => {
+          calls++;
+          throw new Error("backend down");
+        },
+        clock,
+      });
+
+      cache.set("key1", "value1");
+      clock.advance(30);
+
+      expect(cache.lookup("key1")).toEqual({ status: "stale", value: "value1" });
+      await settle();
+      clock.advance(30);
+
+      // Past the revalidate window, but the failed refresh keeps it servable
+      expect(cache.lookup("key1")).toEqual({ status: "stale", value: "value1" });
+      expect(calls).toBe(1);
+
+      cache.destroy();
+    });
+
+    it("should not serve stale-if-error values when no refresh failed", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 10, staleIfErrorMs: 1000, clock });
+
+      cache.set("key1", "value1");
+      clock.advance(20);
+
+      expect(cache.get("key1")).toBeNull();
+
+      cache.destroy();
+    });
+
+    it("should fall back to the expired value when a load fails without staleWhileRevalidateMs", async () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 10, staleIfErrorMs: 1000, clock });
+      const failing = async (): Promise<string> => {
+        throw new Error("boom");
+      };
+
+      cache.set("key1", "value1");
+      clock.advance(20);
+
+      expect(cache.lookup("key1")).toEqual({ status: "miss", value: null });
+      await expect(cache.fetch("key1", failing)).resolves.toBe("value1");
+      expect(cache.lookup("key1")).toEqual({ status: "stale", value: "value1" });
+
+      clock.advance(1000);
+      await expect(cache.fetch("key1", failing)).rejects.toThrow("boom");
+      expect(cache.size()).toBe(0);
+
+      cache.destroy();
+    });
+
+    it("should report fresh values and misses", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+
+      cache.set("key1", "value1");
+
+      expect(cache.lookup("key1")).toEqual({ status: "fresh", value: "value1" });
+      expect(cache.lookup("key2")).toEqual({ status: "miss", value: null });
+
+      cache.destroy();
+    });
+
+    it("should throw error for invalid stale windows", () => {
+      expect(() => new Cache<string>({ maxSize: 10, staleWhileRevalidateMs: -1 })).toThrow(
+        "staleWhileRevalidateMs must be a non-negative number"
+      );
+      expect(() => new Cache<string>({ maxSize: 10, staleIfErrorMs: NaN })).toThrow(
+        "staleIfErrorMs must be a non-negative number"
+      );
+    });
+  });
+
+  describe("Delete Operation", () => {
+    let cache: Cache<string>;
+
+    beforeEach(() => {
+      cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+    });
+
+    afterEach(() => {
+      cache.destroy();
+    });
+
+    it("should delete existing key", () => {
+      cache.set("key1", "value1");
+      expect(cache.size()).toBe(1);
+
+      const deleted = cache.delete("key1");
+      expect(deleted).toBe(true);
+      expect(cache.size()).toBe(0);
+      expect(cache.get("key1")).toBeNull();
+    });
+
+    it("should return false when deleting non-existent key", () => {
+      const deleted = cache.delete("nonexistent");
+      expect(deleted).toBe(false);
+      expect(cache.size()).toBe(0);
+    });
+
+    it("should handle deleting from middle of cache", () => {
+      cache.set("key1", "value1");
+      cache.set("key2", "value2");
+      cache.set("key3", "value3");
+
+      cache.delete("key2");
+
+      expect(cache.size()).toBe(2);
+      expect(cache.get("key1")).toBe("value1");
+      expect(cache.get("key2")).toBeNull();
+      expect(cache.get("key3")).toBe("value3");
+    });
+
+    it("should handle deleting head node", () => {
+      cache.set("key1", "value1");
+      cache.set("key2", "value2");
+      cache.set("key3", "value3");
+
+      cache.delete("key3"); // Most recent
+
+      expect(cache.size()).toBe(2);
+      expect(cache.get("key1")).toBe("value1");
+      expect(cache.get("key2")).toBe("value2");
+    });
+
+    it("should handle deleting tail node", () => {
+      cache.set("key1", "value1");
+      cache.set("key2", "value2");
+      cache.set("key3", "value3");
+
+      cache.delete("key1"); // Least recent
+
+      expect(cache.size()).toBe(2);
+      expect(cache.get("key2")).toBe("value2");
+      expect(cache.get("key3")).toBe("value3");
+    });
+  });
+
+  describe("Tags", () => {
+    it("should remove every entry carrying a tag", () => {
+      const cache = new Cache<string>({ maxSize: 10, autoCleanup: false });
+      cache.set("profile:42", "p", { tags: ["user:42"] });
+      cache.set("feed:42", "f", { tags: ["user:42", "org:7"] });
+      cache.set("feed:43", "g", { tags: ["user:43", "org:7"] });
+      cache.set("plain", "x");
+
+      expect(cache.invalidateTag("user:42")).toBe(2);
+      expect([...cache.keys()].sort()).toEqual(["feed:43", "plain"]);
+      expect(cache.invalidateTag("user:42")).toBe(0);
+
+      cache.destroy();
+    });
+
+    it("should count entries matching several tags once", () => {
+      const cache = new Cache<string>({ maxSize: 10, autoCleanup: false });
+      cache.set("a", "1", { tags: ["x", "y"] });
+      cache.set("b", "2", { tags: ["y"] });
+      cache.set("c", "3", { tags: ["z"] });
+
+      expect(cache.invalidateTags(["x", "y"])).toBe(2);
+      expect([...cache.keys()]).toEqual(["c"]);
+
+      cache.destroy();
+    });
+
+    it("should replace tags when a key is overwritten", () => {
+      const cache = new Cache<string>({ maxSize: 10, autoCleanup: false });
+      cache.set("a", "1", { tags: ["old"] });
+      cache.set("a", "2", { tags: ["new"] });
+
+      expect(cache.invalidateTag("old")).toBe(0);
+      expect(cache.invalidateTag("new")).toBe(1);
+
+      cache.set("b", "1", { tags: ["old"] });
+      cache.set("b", "2");
+      expect(cache.invalidateTag("old")).toBe(0);
+      expect(cache.get("b")).toBe("2");
+
+      cache.destroy();
+    });
+
+    it("should forget entries removed by any other path", () => {
+      const cache = new Cache<number>({ maxSize: 2, autoCleanup: false, ttlMs: 100 });
+
+      cache.set("evicted", 1, { tags: ["t"] });
+      cache.set("deleted", 2, { tags: ["t"] });
+      cache.set("expired", 3, { tags: ["t"] });
+      cache.delete("deleted");
+      cache.cleanExpired(Date.now() + 200);
+
+      cache.set("cleared", 4, { tags: ["t"] });
+      cache.clear();
+
+      // A tag that outlived its entries would remove the reused nodes here
+      cache.set("kept", 5, { tags: ["other"] });
+      expect(cache.invalidateTag("t")).toBe(0);
+      expect(cache.get("kept")).toBe(5);
+
+      cache.destroy();
+    });
+
+    it("should report invalidated entries to onEvict", () => {
+      const evicted: [string, EvictionReason][] = [];
+      const cache = new Cache<number>({
+        maxSize: 10,
+        autoCleanup: false,
+        onEvict: (key, _value, reason) => evicted.push([key, reason]),
+      });
+      cache.set("a", 1, { tags: ["t"] });
+
+      cache.invalidateTag("t");
+
+      expect(evicted).toEqual([["a", "invalidated"]]);
+      cache.destroy();
+    });
+
+    it("should keep tags through snapshots and refreshes", async () => {
+      const source = new Cache<number>({ maxSize: 10, autoCleanup: false });
+      source.set("a", 1, { tags: ["t"] });
+
+      const target = new Cache<number>({ maxSize: 10, autoCleanup: false });
+      target.load(source.dump());
+      expect(target.invalidateTag("t")).toBe(1);
+
+      await target.fetch("b", () => 2, { tags: ["t"] });
+      expect(target.invalidateTag("t")).toBe(1);
+
+      source.destroy();
+      target.destroy();
+    });
+
+    it("should reject tags that are not strings", () => {
+      const cache = new Cache<number>({ maxSize: 10, autoCleanup: false });
+
+      expect(() => cache.set("a", 1, { tags: [1 as unknown as string] })).toThrow("tags must be an array of strings");
+      expect(cache.has("a")).toBe(false);
+
+      cache.destroy();
+    });
+  });
+
+  describe("Batch Operations", () => {
+    it("should get several keys at once, leaving misses out", () => {
+      const cache = new Cache<number>({ maxSize: 10, autoCleanup: false });
+      cache.set("a", 1);
+      cache.set("b", 2);
+      cache.setNegative("c");
+
+      const results = cache.getMany(["a", "b", "c", "d"]);
+
+      expect(results).toEqual(new Map([["a", 1], ["b", 2]]));
+      expect(cache.stats()).toMatchObject({ hits: 2, misses: 1, negativeHits: 1 });
+      cache.destroy();
+    });
+
+    it("should write every entry at the same timestamp", () => {
+      const clock = new ManualClock(1000);
+      let reads = 0;
+      const ticking = { now: () => clock.now() + reads++ };
+      const cache = new Cache<number>({ maxSize: 10, autoCleanup: false, ttlMs: 100, clock: ticking });
+
+      cache.setMany([["a", 1], ["b", 2], ["c", 3]]);
+
+      const expiries = ["a", "b", "c"].map((key) => cache.getExpiresAt(key));
+      expect(new Set(expiries).size).toBe(1);
+      cache.destroy();
+    });
+
+    it("should evict only once the whole batch is stored", () => {
+      const evicted: string[] = [];
+      const cache = new Cache<number>({ maxSize: 3, autoCleanup: false, onEvict: (key) => evicted.push(key) });
+      cache.set("old1", 0);
+      cache.set("old2", 0);
+      cache.set("old3", 0);
+
+      cache.setMany(new Map([["a", 1], ["b", 2], ["c", 3]]));
+
+      expect(evicted).toEqual(["old1", "old2", "old3"]);
+      expect([...cache.keys()].sort()).toEqual(["a", "b", "c"]);
+      cache.destroy();
+    });
+
+    it("should apply set options to every entry", () => {
+      const cache = new Cache<number>({ maxSize: 10, autoCleanup: false });
+
+      cache.setMany([["a", 1], ["b", 2]], { ttlMs: Infinity, tags: ["batch"] });
+
+      expect(cache.getExpiresAt("a")).toBe(Infinity);
+      expect(cache.invalidateTag("batch")).toBe(2);
+      cache.destroy();
+    });
+
+    it("should still settle the cache when an entry is rejected", () => {
+      const evicted: string[] = [];
+      const cache = new Cache<number>({ maxSize: 1, autoCleanup: false, onEvict: (key) => evicted.push(key) });
+
+      expect(() => cache.setMany([["a", 1], ["b", 2], ["", 3]])).toThrow("key must be a non-empty string");
+
+      expect(cache.size()).toBe(1);
+      expect(evicted).toEqual(["a"]);
+      cache.destroy();
+    });
+
+    it("should delete several keys and count the ones that existed", () => {
+      const cache = new Cache<number>({ maxSize: 10, autoCleanup: false });
+      cache.setMany([["a", 1], ["b", 2], ["c", 3]]);
+
+      expect(cache.deleteMany(["a", "c", "missing"])).toBe(2);
+      expect([...cache.keys()]).toEqual(["b"]);
+      cache.destroy();
+    });
+  });
+
+  describe("Prefix Deletion", () => {
+    function fill(cache: Cache<number>): void {
+      cache.setMany([
+        ["user:42:profile", 1],
+        ["user:42:feed", 2],
+        ["user:420:profile", 3],
+        ["org:7:users", 4],
+      ]);
+    }
+
+    it("should delete keys by prefix without an index", () => {
+      const cache = new Cache<number>({ maxSize: 10, autoCleanup: false });
+      fill(cache);
+
+      expect(cache.deleteByPrefix("user:42")).toBe(3);
+      expect([...cache.keys()]).toEqual(["org:7:users"]);
+      cache.destroy();
+    });
+
+    it("should use the prefix index for prefixes ending in the separator", () => {
+      const cache = new Cache<number>({ maxSize: 10, autoCleanup: false, prefixSeparator: ":" });
+      fill(cache);
+
+      expect(cache.deleteByPrefix("user:42:")).toBe(2);
+      expect(cache.deleteByPrefix("user:42:")).toBe(0);
+      expect([...cache.keys()].sort()).toEqual(["org:7:users", "user:420:profile"]);
+
+      // Other prefixes fall back to a scan
+      expect(cache.deleteByPrefix("user:4")).toBe(1);
+      cache.destroy();
+    });
+
+    it("should index prefixes ending in overlapping separators", () => {
+      const cache = new Cache<number>({ maxSize: 10, autoCleanup: false, prefixSeparator: "::" });
+      cache.set("a::::b", 1);
+      cache.set("a::c", 2);
+
+      expect(cache.deleteByPrefix("a:::")).toBe(1);
+      expect(cache.deleteByPrefix("a::")).toBe(1);
+      expect(cache.size()).toBe(0);
+      cache.destroy();
+    });
+
+    it("should keep the prefix index in step with every removal path", () => {
+      const cache = new Cache<number>({ maxSize: 2, autoCleanup: false, ttlMs: 100, prefixSeparator: ":" });
+
+      cache.set("a:evicted", 1);
+      cache.set("a:deleted", 2);
+      cache.set("a:expired", 3);
+      cache.delete("a:deleted");
+      cache.cleanExpired(Date.now() + 200);
+      cache.set("a:cleared", 4);
+      cache.clear();
+
+      cache.set("b:kept", 5);
+      expect(cache.deleteByPrefix("a:")).toBe(0);
+      expect(cache.get("b:kept")).toBe(5);
+      cache.destroy();
+    });
+
+    it("should delete keys matching a predicate", () => {
+      const cache = new Cache<number>({ maxSize: 10, autoCleanup: false });
+      fill(cache);
+
+      expect(cache.deleteMatching((key) => key.endsWith(":profile"))).toBe(2);
+      expect(cache.stats().deletes).toBe(2);
+      expect([...cache.keys()].sort()).toEqual(["org:7:users", "user:42:feed"]);
+      cache.destroy();
+    });
+
+    it("should validate prefixes and separators", () => {
+      const cache = new Cache<number>({ maxSize: 10, autoCleanup: false });
+
+      expect(() => cache.deleteByPrefix("")).toThrow("prefix must be a non-empty string");
+      expect(() => new Cache({ maxSize: 1, prefixSeparator: "" })).toThrow("prefixSeparator must be a non-empty string");
+      cache.destroy();
+    });
+  });
+
+  describe("Eviction Callbacks", () => {
+    let evictions: [string, string, EvictionReason][];
+    let cache: Cache<string>;
+
+    beforeEach(() => {
+      evictions = [];
+      cache = new Cache<string>({
+        maxSize: 2,
+        autoCleanup: false,
+        ttlMs: 100,
+        onEvict: (key, value, reason) => evictions.push([key, value, reason]),
+      });
+    });
+
+    afterEach(() => {
+      cache.destroy();
+    });
+
+    it("should report lru evictions", () => {
+      cache.set("a", "1");
+      cache.set("b", "2");
+      cache.set("c", "3");
+
+      expect(evictions).toEqual([["a", "1", "lru"]]);
+    });
+
+    it("should report expired items removed on get", () => {
+      cache.set("a", "1", { ttlMs: 10 });
+
+      return new Promise<void>((resolve) => {
+        setTimeout(() => {
+          expect(cache.get("a")).toBeNull();
+          expect(evictions).toEqual([["a", "1", "expired"]]);
+          resolve();
+        }, 30);
+      });
+    });
+
+    it("should report expired items removed by cleanExpired and sweep", () => {
+      cache.set("a", "1");
+      cache.cleanExpired(Date.now() + 200);
 
-      // Wait for what would be cleanup interval
-      await new Promise((resolve) => setTimeout(resolve, 200));
+      cache.set("b", "2");
+      cache.sweep(Date.now() + 200);
+
+      expect(evictions).toEqual([
+        ["a", "1", "expired"],
+        ["b", "2", "expired"],
+      ]);
+    });
+
+    it("should report deletes and clears", () => {
+      cache.set("a", "1");
+      cache.set("b", "2");
+      cache.delete("a");
+      cache.clear();
+
+      expect(evictions).toEqual([
+        ["a", "1", "deleted"],
+        ["b", "2", "cleared"],
+      ]);
+    });
+
+    it("should report replaced values on overwrite", () => {
+      cache.set("a", "1");
+      cache.set("a", "1");
+      cache.set("a", "2");
+
+      expect(evictions).toEqual([["a", "1", "replaced"]]);
+    });
+
+    it("should run callbacks after the cache is consistent", () => {
+      const seen: number[] = [];
+      const consistent = new Cache<string>({
+        maxSize: 1,
+        autoCleanup: false,
+        onEvict: (key) => {
+          seen.push(consistent.size());
+          expect(consistent.get(key)).toBeNull();
+          consistent.set("other", "value");
+        },
+      });
+
+      consistent.set("a", "1");
+      consistent.set("b", "2");
+
+      expect(seen[0]).toBe(1);
+      expect(consistent.size()).toBe(1);
+      expect(consistent.get("other")).toBe("value");
+
+      consistent.destroy();
+    });
+
+    it("should run every callback when one throws, then rethrow the first error", () => {
+      const seen: string[] = [];
+      const throwing = new Cache<string>({
+        maxSize: 5,
+        autoCleanup: false,
+        onEvict: (key) => {
+          seen.push(key);
+          throw new Error(`failed ${key}`);
+        },
+      });
+      throwing.set("a", "1");
+      throwing.set("b", "2");
+      throwing.set("c", "3");
+
+      expect(() => throwing.setMaxSize(1)).toThrow("failed a");
+      expect(seen).toEqual(["a", "b"]);
+      expect(throwing.size()).toBe(1);
+
+      seen.length = 0;
+      expect(() => throwing.destroy()).toThrow("failed c");
+      expect(seen).toEqual(["c"]);
+    });
+
+    it("should report callback errors from background cleanup to onCleanupError", () => {
+      const clock = new ManualClock();
+      const errors: unknown[] = [];
+      const background = new Cache<string>({
+        maxSize: 5,
+        ttlMs: 100,
+        cleanupInterval: 1000,
+        clock,
+        scheduler: clock,
+        onEvict: () => {
+          throw new Error("callback failed");
+        },
+        onCleanupError: (error) => errors.push(error),
+      });
+      background.set("a", "1");
+      background.set("b", "2");
+
+      expect(() => clock.advance(1000)).not.toThrow();
+      expect(errors).toEqual([new Error("callback failed")]);
+      expect(background.size()).toBe(0);
+
+      background.setCleanupInterval(1000);
+      background.set("c", "3");
+      clock.advance(1000);
+      expect(errors).toHaveLength(2);
+      background.destroy();
+      expect(clock.pending()).toBe(0);
+    });
+  });
+
+  describe("Size and Clear Operations", () => {
+    let cache: Cache<string>;
+
+    beforeEach(() => {
+      cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+    });
+
+    afterEach(() => {
+      cache.destroy();
+    });
+
+    it("should return correct size", () => {
+      expect(cache.size()).toBe(0);
+
+      cache.set("key1", "value1");
+      expect(cache.size()).toBe(1);
+
+      cache.set("key2", "value2");
+      expect(cache.size()).toBe(2);
+
+      cache.delete("key1");
+      expect(cache.size()).toBe(1);
+    });
+
+    it("should clear all items", () => {
+      cache.set("key1", "value1");
+      cache.set("key2", "value2");
+      cache.set("key3", "value3");
+
+      expect(cache.size()).toBe(3);
+
+      cache.clear();
+
+      expect(cache.size()).toBe(0);
+      expect(cache.get("key1")).toBeNull();
+      expect(cache.get("key2")).toBeNull();
+      expect(cache.get("key3")).toBeNull();
+    });
+
+    it("should clear empty cache without error", () => {
+      expect(() => cache.clear()).not.toThrow();
+      expect(cache.size()).toBe(0);
+    });
+
+    it("should allow setting items after clear", () => {
+      cache.set("key1", "value1");
+      cache.clear();
+
+      cache.set("key2", "value2");
+      expect(cache.get("key2")).toBe("value2");
+      expect(cache.size()).toBe(1);
+    });
+  });
+
+  describe("Background Cleanup", () => {
+    let clock: ManualClock;
+
+    beforeEach(() => {
+      clock = new ManualClock();
+    });
+
+    it("should automatically clean expired items with autoCleanup enabled", () => {
+      const cache = new Cache<string>({ 
+        maxSize: 5,
+        cleanupInterval: 100,
+        autoCleanup: true,
+        ttlMs: 100,
+        clock,
+        scheduler: clock,
+      });
+
+      cache.set("key1", "value1");
+      cache.set("key2", "value2");
+
+      expect(cache.size()).toBe(2);
+
+      // Run the cleanup interval
+      clock.advance(200);
+
+      expect(cache.size()).toBe(0);
+      expect(cache.get("key1")).toBeNull();
+      expect(cache.get("key2")).toBeNull();
+
+      cache.destroy();
+    });
+
+    it("should not run cleanup when autoCleanup is false", () => {
+      const cache = new Cache<string>({ 
+        maxSize: 5,
+        cleanupInterval: 100,
+        autoCleanup: false,
+        ttlMs: 100,
+        clock,
+        scheduler: clock,
+      });
+
+      cache.set("key1", "value1");
+
+      // Run past what would be the cleanup interval
+      clock.advance(200);
+
+      // Item should still be in cache (not cleaned)
+      expect(cache.size()).toBe(1);
+      expect(clock.pending()).toBe(0);
+
+      cache.destroy();
+    });
+
+    it("should restart cleanup after clear", () => {
+      const cache = new Cache<string>({ 
+        maxSize: 5,
+        cleanupInterval: 100,
+        autoCleanup: true,
+        ttlMs: 100,
+        clock,
+        scheduler: clock,
+      });
+
+      cache.set("key1", "value1");
+      cache.clear();
+
+      cache.set("key2", "value2");
+
+      clock.advance(200);
+
+      expect(cache.size()).toBe(0);
+
+      cache.destroy();
+    });
+
+    it("should reschedule cleanup when item expires before cleanup interval", () => {
+      const cache = new Cache<string>({ 
+        maxSize: 5,
+        cleanupInterval: 1000,
+        autoCleanup: true,
+        ttlMs: 100,
+        clock,
+        scheduler: clock,
+      });
+
+      cache.set("key1", "value1");
+      clock.advance(950);
+      cache.set("key2", "value2");
+
+      // The interval removes key1 and sees key2 expiring before the next interval
+      clock.advance(50);
+      expect(cache.size()).toBe(1);
+
+      // key2 is swept as soon as it expires, without waiting for the interval or a read
+      clock.advance(50);
+      expect(cache.size()).toBe(0);
+      expect(cache.get("key1")).toBeNull();
+      expect(cache.get("key2")).toBeNull();
+
+      cache.destroy();
+    });
+  });
+
+  describe("Incremental Sweeping", () => {
+    it("should remove at most one batch of expired items per slice", () => {
+      const cache = new Cache<number>({ maxSize: 20, autoCleanup: false, ttlMs: 100, sweepBatchSize: 4 });
+
+      for (let i = 0; i < 10; i++) {
+        cache.set(`key${i}`, i);
+      }
+
+      const now = Date.now() + 200;
+      const first = cache.sweep(now);
+      expect(first.removed).toBe(4);
+      expect(first.totalRemoved).toBe(4);
+      expect(first.slices).toBe(1);
+      expect(first.done).toBe(false);
+      expect(cache.size()).toBe(6);
+
+      cache.sweep(now);
+      const last = cache.sweep(now);
+      expect(last.removed).toBe(2);
+      expect(last.totalRemoved).toBe(10);
+      expect(last.slices).toBe(3);
+      expect(last.done).toBe(true);
+      expect(cache.size()).toBe(0);
+
+      cache.destroy();
+    });
+
+    it("should report each slice to onSweep", () => {
+      const reports: SweepReport[] = [];
+      const cache = new Cache<number>({
+        maxSize: 10,
+        autoCleanup: false,
+        ttlMs: 100,
+        sweepBatchSize: 2,
+        onSweep: (report) => reports.push(report),
+      });
+
+      cache.set("a", 1);
+      cache.set("b", 2);
+      cache.set("c", 3, { ttlMs: Infinity });
+
+      cache.sweep(Date.now() + 200);
+
+      expect(reports).toHaveLength(1);
+      expect(reports[0].removed).toBe(2);
+      expect(reports[0].done).toBe(true);
+      expect(reports[0].durationMs).toBeGreaterThanOrEqual(0);
+
+      cache.destroy();
+    });
+
+    it("should leave live items alone", () => {
+      const cache = new Cache<number>({ maxSize: 10, autoCleanup: false });
+
+      cache.set("a", 1);
+
+      const report = cache.sweep();
+      expect(report.removed).toBe(0);
+      expect(report.done).toBe(true);
+      expect(cache.size()).toBe(1);
+
+      cache.destroy();
+    });
+
+    it("should continue background sweeps across slices until done", () => {
+      const reports: SweepReport[] = [];
+      const clock = new ManualClock();
+      const cache = new Cache<number>({
+        maxSize: 100,
+        cleanupInterval: 50,
+        autoCleanup: true,
+        ttlMs: 20,
+        sweepBatchSize: 10,
+        onSweep: (report) => reports.push(report),
+        clock,
+        scheduler: clock,
+      });
+
+      for (let i = 0; i < 35; i++) {
+        cache.set(`key${i}`, i);
+      }
+
+      clock.advance(200);
+
+      expect(cache.size()).toBe(0);
+      const finished = reports.find((report) => report.done && report.totalRemoved === 35);
+      expect(finished?.slices).toBe(4);
+
+      cache.destroy();
+    });
+
+    it("should throw error for invalid sweep budgets", () => {
+      expect(() => new Cache<string>({ maxSize: 10, sweepBatchSize: 0 })).toThrow(
+        "sweepBatchSize must be a positive finite number"
+      );
+      expect(() => new Cache<string>({ maxSize: 10, sweepTimeBudgetMs: -1 })).toThrow(
+        "sweepTimeBudgetMs must be a positive number"
+      );
+    });
+  });
+
+  describe("Snapshots", () => {
+    it("should dump live entries in LRU order", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 1000 });
+      cache.set("a", "1");
+      cache.set("b", "2", { ttlMs: Infinity });
+      cache.get("a");
+
+      const snapshot = cache.dump();
+
+      expect(snapshot.version).toBe(1);
+      expect(snapshot.entries.map((entry) => entry.key)).toEqual(["a", "b"]);
+      expect(snapshot.entries[0].value).toBe("1");
+      expect(snapshot.entries[0].expiresAt).toBeGreaterThan(Date.now());
+      expect(snapshot.entries[1].expiresAt).toBeNull();
+
+      cache.destroy();
+    });
+
+    it("should load entries in the same order with their expiry", () => {
+      const source = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 1000 });
+      source.set("a", "1");
+      source.set("b", "2", { ttlMs: Infinity });
+      source.set("c", "3");
+      source.get("a");
+
+      const target = new Cache<string>({ maxSize: 5, autoCleanup: false });
+      const loaded = target.load(JSON.parse(JSON.stringify(source.dump())));
+
+      expect(loaded).toBe(3);
+      expect([...target.keys()]).toEqual(["a", "c", "b"]);
+      expect(target.getExpiresAt("a")).toBe(source.getExpiresAt("a"));
+      expect(target.getExpiresAt("b")).toBe(Infinity);
+
+      source.destroy();
+      target.destroy();
+    });
+
+    it("should drop entries that expired before loading", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+      const now = Date.now();
+
+      const loaded = cache.load({
+        version: 1,
+        createdAt: now - 1000,
+        entries: [
+          { key: "live", value: "1", expiresAt: now + 1000 },
+          { key: "dead", value: "2", expiresAt: now - 1 },
+        ],
+      });
+
+      expect(loaded).toBe(1);
+      expect(cache.has("dead")).toBe(false);
+      expect(cache.get("live")).toBe("1");
+
+      cache.destroy();
+    });
+
+    it("should restore remaining ttls when asked", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+      const now = Date.now();
+
+      cache.load(
+        { version: 1, createdAt: now - 10000, entries: [{ key: "a", value: "1", expiresAt: now - 9000 }] },
+        { useRemainingTtl: true }
+      );
+
+      const remaining = cache.getRemainingTtl("a") as number;
+      expect(remaining).toBeGreaterThan(900);
+      expect(remaining).toBeLessThanOrEqual(1000);
+
+      cache.destroy();
+    });
+
+    it("should encode and decode values with a codec", () => {
+      const codec = {
+        encode: (value: Date) => value.toISOString(),
+        decode: (encoded: string) => new Date(encoded),
+      };
+      const source = new Cache<Date>({ maxSize: 5, autoCleanup: false });
+      source.set("when", new Date("2024-01-02T03:04:05.000Z"));
+
+      const snapshot = source.dump({ codec });
+      expect(snapshot.entries[0].value).toBe("2024-01-02T03:04:05.000Z");
+
+      const target = new Cache<Date>({ maxSize: 5, autoCleanup: false });
+      target.load(snapshot, { codec });
+      expect(target.get("when")?.getTime()).toBe(Date.UTC(2024, 0, 2, 3, 4, 5));
+
+      source.destroy();
+      target.destroy();
+    });
+
+    it("should keep entry sizes", () => {
+      const source = new Cache<string>({ maxSize: 5, maxBytes: 100, autoCleanup: false });
+      source.set("a", "1", { size: 40 });
+
+      const target = new Cache<string>({ maxSize: 5, maxBytes: 100, autoCleanup: false });
+      target.load(source.dump());
+
+      expect(target.bytes()).toBe(40);
+
+      source.destroy();
+      target.destroy();
+    });
+
+    it("should reject unknown snapshot formats", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
 
-      // Item should still be in cache (not cleaned)
-      expect(cache.size()).toBe(1);
+      expect(() => cache.load({ version: 2 } as unknown as CacheSnapshot)).toThrow("unsupported snapshot format");
 
       cache.destroy();
     });
+  });
 
-    it("should restart cleanup after clear", async () => {
-      const cache = new Cache<string>({ 
-        maxSize: 5,
-        cleanupInterval: 100,
-        autoCleanup: true,
-        ttlMs: 100,
+  describe("Statistics", () => {
+    it("should count reads, writes and removals", () => {
+      const cache = new Cache<string>({ maxSize: 2, autoCleanup: false, ttlMs: 100 });
+
+      cache.set("a", "1");
+      cache.set("a", "2");
+      cache.set("b", "3");
+      cache.set("c", "4");
+      cache.get("b");
+      cache.get("a");
+      cache.delete("b");
+      cache.delete("missing");
+      cache.cleanExpired(Date.now() + 200);
+
+      expect(cache.stats()).toEqual({
+        hits: 1,
+        misses: 1,
+        negativeHits: 0,
+        expiredOnRead: 0,
+        evictions: 1,
+        sweeperRemovals: 1,
+        sets: 4,
+        overwrites: 1,
+        deletes: 1,
+        collected: 0,
+        hitRatio: 0.5,
+        size: 0,
       });
 
-      cache.set("key1", "value1");
-      cache.clear();
+      cache.destroy();
+    });
 
-      cache.set("key2", "value2");
+    it("should count expired entries found on read", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({ maxSize: 2, autoCleanup: false, ttlMs: 10, clock });
 
-      await new Promise((resolve) => setTimeout(resolve, 200));
+      cache.set("a", "1");
+      clock.advance(20);
+      cache.get("a");
 
-      expect(cache.size()).toBe(0);
+      expect(cache.stats().expiredOnRead).toBe(1);
+      expect(cache.stats().misses).toBe(1);
 
       cache.destroy();
-    }, 10000);
-
-    it("should reschedule cleanup when item expires before cleanup interval", async () => {
-      const cache = new Cache<string>({ 
-        maxSize: 5,
-        cleanupInterval: 5000, // Long interval
-        autoCleanup: true,
-        ttlMs: 100,
-      });
-
-      // Set item with short TTL
-      cache.set("key1", "value1");
-      cache.set("key2", "value2");
+    });
 
-      // Wait for first cleanup cycle + rescheduled cleanup
-      await new Promise((resolve) => setTimeout(resolve, 300));
+    it("should report a zero hit ratio before any reads", () => {
+      const cache = new Cache<string>({ maxSize: 2, autoCleanup: false });
 
-      // key1 should be cleaned up
-      expect(cache.get("key1")).toBeNull();
-      expect(cache.get("key2")).toBeNull();
+      expect(cache.stats().hitRatio).toBe(0);
 
       cache.destroy();
-    }, 10000);
+    });
   });
 
   describe("Destroy", () => {
@@ -486,12 +2338,13 @@ describe("LRUCache", () => {
       cache.destroy();
     });
 
-    it("should handle very short TTL", async () => {
-      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 5 });
+    it("should handle very short TTL", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false, ttlMs: 5, clock });
 
       cache.set("key1", "value1");
 
-      await new Promise((resolve) => setTimeout(resolve, 10));
+      clock.advance(10);
 
       expect(cache.get("key1")).toBeNull();
       expect(cache.size()).toBe(0);
@@ -521,13 +2374,14 @@ describe("LRUCache", () => {
       cache.destroy();
     });
 
-    it("should properly clean expired items before eviction", async () => {
-      const cache = new Cache<string>({ maxSize: 2, autoCleanup: false });
+    it("should properly clean expired items before eviction", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({ maxSize: 2, autoCleanup: false, clock });
 
       cache.set("key1", "value1");
       cache.set("key2", "value2");
 
-      await new Promise((resolve) => setTimeout(resolve, 150));
+      clock.advance(150);
 
       // This should clean expired key1 first, then add key3
       cache.set("key3", "value3");
@@ -637,8 +2491,9 @@ describe("LRUCache", () => {
   });
 
   describe("Complex Scenarios", () => {
-    it("should handle mixed operations correctly", async () => {
-      const cache = new Cache<number>({ maxSize: 3, autoCleanup: false, ttlMs: 100 });
+    it("should handle mixed operations correctly", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<number>({ maxSize: 3, autoCleanup: false, ttlMs: 100, clock });
 
       cache.set("a", 1);
       cache.set("b", 2);
@@ -647,7 +2502,7 @@ describe("LRUCache", () => {
       expect(cache.size()).toBe(3);
       expect(cache.get("a")).toBe(1);
 
-      await new Promise((resolve) => setTimeout(resolve, 150));
+      clock.advance(150);
 
       // After 150ms, all items should be expired
       expect(cache.get("b")).toBeNull();
@@ -701,5 +2556,543 @@ describe("LRUCache", () => {
       cache.destroy();
     });
   });
-});
 
+  describe("Weak Values", () => {
+    interface Box {
+      id: number;
+    }
+
+    // Stands in for the garbage collector: records registrations so tests can finalize on demand
+    class RecordingRegistry<H> {
+      static instances: RecordingRegistry<unknown>[] = [];
+      readonly held = new Map<unknown, H>();
+
+      constructor(private readonly callback: (held: H) => void) {
+        RecordingRegistry.instances.push(this as RecordingRegistry<unknown>);
+      }
+
+      register(_target: object, held: H, token: unknown): void {
+        this.held.set(token, held);
+      }
+
+      unregister(token: unknown): boolean {
+        return this.held.delete(token);
+      }
+
+      finalize(held: H): void {
+        this.callback(held);
+      }
+
+      finalizeAll(): void {
+        const held = [...this.held.values()];
+        this.held.clear();
+        held.forEach((value) => this.finalize(value));
+      }
+    }
+
+    const OriginalRegistry = globalThis.FinalizationRegistry;
+
+    beforeEach(() => {
+      RecordingRegistry.instances = [];
+      globalThis.FinalizationRegistry = RecordingRegistry as unknown as FinalizationRegistryConstructor;
+    });
+
+    afterEach(() => {
+      globalThis.FinalizationRegistry = OriginalRegistry;
+      jest.restoreAllMocks();
+    });
+
+    it("should return stored objects while they are alive", () => {
+      const cache = new Cache<Box>({ maxSize: 10, weakValues: true, autoCleanup: false });
+      const box = { id: 1 };
+      cache.set("a", box);
+
+      expect(cache.get("a")).toBe(box);
+      expect([...cache.values()]).toEqual([box]);
+      cache.destroy();
+    });
+
+    it("should reject primitive values", () => {
+      const cache = new Cache<unknown>({ maxSize: 10, weakValues: true, autoCleanup: false });
+
+      expect(() => cache.set("a", 1)).toThrow("weakValues requires object values");
+      expect(() => cache.set("a", null)).toThrow("weakValues requires object values");
+      cache.destroy();
+    });
+
+    it("should treat collected values as misses", () => {
+      const onEvict = jest.fn();
+      const cache = new Cache<Box>({ maxSize: 10, weakValues: true, autoCleanup: false, onEvict });
+      cache.set("a", { id: 1 });
+      cache.set("b", { id: 2 });
+      jest.spyOn(WeakRef.prototype, "deref").mockReturnValue(undefined);
+
+      expect(cache.get("a")).toBeNull();
+      expect(cache.has("b")).toBe(false);
+      expect(cache.size()).toBe(0);
+      expect(cache.stats().misses).toBe(1);
+      expect(cache.stats().collected).toBe(2);
+      expect(onEvict).not.toHaveBeenCalled();
+      cache.destroy();
+    });
+
+    it("should skip collected values when iterating", () => {
+      const cache = new Cache<Box>({ maxSize: 10, weakValues: true, autoCleanup: false });
+      const kept = { id: 1 };
+      cache.set("kept", kept);
+      cache.set("gone", { id: 2 });
+      const deref = WeakRef.prototype.deref;
+      jest.spyOn(WeakRef.prototype, "deref").mockImplementation(function (this: WeakRef<object>) {
+        const value = deref.call(this);
+        return value === kept ? value : undefined;
+      });
+
+      expect([...cache.keys()]).toEqual(["kept"]);
+      expect(cache.size()).toBe(1);
+      cache.destroy();
+    });
+
+    it("should remove entries once their values are finalized", () => {
+      const cache = new Cache<Box>({ maxSize: 10, weakValues: true, autoCleanup: false });
+      cache.set("a", { id: 1 });
+      cache.set("b", { id: 2 });
+
+      const registry = RecordingRegistry.instances[0];
+
+      // Until the collector finalizes them, collected values still count towards size
+      expect(cache.size()).toBe(2);
+      registry.finalizeAll();
+
+      expect(cache.size()).toBe(0);
+      expect(cache.stats().size).toBe(0);
+      expect(cache.stats().collected).toBe(2);
+      expect(cache.stats().deletes).toBe(0);
+      cache.set("c", { id: 3 });
+      expect(cache.get("c")).toEqual({ id: 3 });
+      cache.destroy();
+    });
+
+    it("should ignore finalizers for values that were replaced or deleted", () => {
+      const cache = new Cache<Box>({ maxSize: 10, weakValues: true, autoCleanup: false });
+      cache.set("a", { id: 1 });
+      cache.set("b", { id: 2 });
+      const registry = RecordingRegistry.instances[0];
+      const stale = [...registry.held.values()];
+
+      cache.set("a", { id: 3 });
+      cache.delete("b");
+      cache.set("b", { id: 4 });
+      stale.forEach((held) => registry.finalize(held));
+
+      expect(cache.get("a")).toEqual({ id: 3 });
+      expect(cache.get("b")).toEqual({ id: 4 });
+      expect(cache.size()).toBe(2);
+      cache.destroy();
+    });
+
+    it("should keep negative entries without a value", () => {
+      const cache = new Cache<Box>({ maxSize: 10, weakValues: true, autoCleanup: false });
+      cache.setNegative("missing");
+
+      expect(cache.lookup("missing")).toEqual({ status: "negative", value: null });
+      cache.destroy();
+    });
+  });
+
+  describe("Reconfiguration", () => {
+    it("should evict down to a smaller maxSize right away", () => {
+      const evicted: string[] = [];
+      const cache = new Cache<number>({
+        maxSize: 5,
+        autoCleanup: false,
+        onEvict: (key, _value, reason) => evicted.push(`${key}:${reason}`),
+      });
+      for (let i = 0; i < 5; i++) {
+        cache.set(`key${i}`, i);
+      }
+      cache.get("key0");
+
+      cache.setMaxSize(2);
+
+      expect(cache.size()).toBe(2);
+      expect([...cache.keys()]).toEqual(["key0", "key4"]);
+      expect(evicted).toEqual(["key1:lru", "key2:lru", "key3:lru"]);
+      expect(cache.stats().evictions).toBe(3);
+      cache.destroy();
+    });
+
+    it("should make room for more entries after growing", () => {
+      const cache = new Cache<number>({ maxSize: 2, autoCleanup: false });
+      cache.setMaxSize(4);
+
+      for (let i = 0; i < 4; i++) {
+        cache.set(`key${i}`, i);
+      }
+
+      expect(cache.size()).toBe(4);
+      cache.destroy();
+    });
+
+    it("should apply a new default ttl to later writes only", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({ maxSize: 5, ttlMs: 100, autoCleanup: false, clock });
+      cache.set("old", "1");
+
+      cache.setDefaultTtl(1000);
+      cache.set("new", "2");
+
+      expect(cache.getRemainingTtl("old")).toBe(100);
+      expect(cache.getRemainingTtl("new")).toBe(1000);
+      cache.destroy();
+    });
+
+    it("should rebase entries stored with the previous default ttl", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({ maxSize: 5, ttlMs: 100, autoCleanup: false, clock });
+      cache.set("default", "1");
+      cache.set("custom", "2", { ttlMs: 50 });
+      cache.set("capped", "3", { maxAgeMs: 300 });
+      clock.advance(40);
+
+      cache.setDefaultTtl(1000, { rebase: true });
+
+      expect(cache.getRemainingTtl("default")).toBe(960);
+      expect(cache.getRemainingTtl("custom")).toBe(10);
+      expect(cache.getRemainingTtl("capped")).toBe(260);
+      cache.destroy();
+    });
+
+    it("should rebase entries that never expired from their last write", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({ maxSize: 5, ttlMs: Infinity, autoCleanup: false, clock });
+      cache.set("old", "1");
+      clock.advance(500);
+      cache.set("recent", "2");
+      clock.advance(50);
+
+      cache.setDefaultTtl(100, { rebase: true });
+      expect(cache.get("old")).toBeNull();
+      expect(cache.getRemainingTtl("recent")).toBe(50);
+      cache.destroy();
+    });
+
+    it("should rebase entries capped by maxAgeMs from their last write", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({ maxSize: 5, ttlMs: 100, maxAgeMs: 150, autoCleanup: false, clock });
+      cache.set("key", "1");
+      clock.advance(80);
+      cache.set("key", "2");
+      expect(cache.getExpiresAt("key")).toBe(150);
+
+      cache.setDefaultTtl(60, { rebase: true });
+      expect(cache.getExpiresAt("key")).toBe(140);
+      cache.destroy();
+    });
+
+    it("should move a defaulted negativeTtlMs along with ttlMs", () => {
+      const clock = new ManualClock();
+      const defaulted = new Cache<string>({ maxSize: 5, ttlMs: 100, autoCleanup: false, clock });
+      const explicit = new Cache<string>({ maxSize: 5, ttlMs: 100, negativeTtlMs: 100, autoCleanup: false, clock });
+
+      defaulted.setDefaultTtl(1000);
+      explicit.setDefaultTtl(1000);
+      defaulted.setNegative("missing");
+      explicit.setNegative("missing");
+      clock.advance(500);
+
+      expect(defaulted.lookup("missing").status).toBe("negative");
+      expect(explicit.lookup("missing").status).toBe("miss");
+      defaulted.destroy();
+      explicit.destroy();
+    });
+
+    it("should restart the cleanup timer with a new interval", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({ maxSize: 5, ttlMs: 100, cleanupInterval: 1000, clock, scheduler: clock });
+      cache.set("key", "1");
+      clock.advance(600);
+
+      cache.setCleanupInterval(200);
+      expect(clock.pending()).toBe(1);
+      clock.advance(199);
+      expect(cache.size()).toBe(1);
+
+      clock.advance(1);
+      expect(cache.size()).toBe(0);
+      cache.destroy();
+    });
+
+    it("should not start a cleanup timer when autoCleanup is off", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false, clock, scheduler: clock });
+
+      cache.setCleanupInterval(200);
+
+      expect(clock.pending()).toBe(0);
+      cache.destroy();
+    });
+
+    it("should change several options at once", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({ maxSize: 5, ttlMs: 100, autoCleanup: false, clock });
+      for (let i = 0; i < 5; i++) {
+        cache.set(`key${i}`, `${i}`);
+      }
+
+      cache.reconfigure({ maxSize: 3, ttlMs: 50, staleWhileRevalidateMs: 1000 });
+      cache.set("fresh", "new");
+      clock.advance(60);
+
+      expect(cache.size()).toBe(3);
+      expect(cache.lookup("fresh", { peek: true })).toEqual({ status: "stale", value: "new" });
+      cache.destroy();
+    });
+
+    it("should keep reading a zero ttlMs or cleanupInterval in the constructor as the default", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({ maxSize: 5, ttlMs: 0, cleanupInterval: 0, clock, scheduler: clock });
+      cache.set("key", "1");
+
+      expect(cache.getRemainingTtl("key")).toBe(60000);
+      clock.advance(59999);
+      expect(clock.pending()).toBe(1);
+      expect(() => cache.setDefaultTtl(0)).toThrow("ttlMs must be a positive number or Infinity");
+      cache.destroy();
+    });
+
+    it("should validate options and leave the cache untouched", () => {
+      const cache = new Cache<string>({ maxSize: 5, ttlMs: 100, autoCleanup: false });
+      cache.set("key", "1");
+
+      expect(() => cache.setMaxSize(0)).toThrow("maxSize must be a positive finite number");
+      expect(() => cache.setDefaultTtl(-1)).toThrow("ttlMs must be a positive number or Infinity");
+      expect(() => cache.setCleanupInterval(Infinity)).toThrow("cleanupInterval must be a positive finite number");
+      expect(() => cache.reconfigure({ maxSize: 1, staleIfErrorMs: NaN })).toThrow(
+        "staleIfErrorMs must be a non-negative number"
+      );
+
+      expect(cache.size()).toBe(1);
+      expect(cache.getRemainingTtl("key")).toBeGreaterThan(0);
+      cache.destroy();
+    });
+  });
+
+  describe("Change Feed", () => {
+    type Change = ChangeEvent<string>;
+
+    it("should deliver set, update and delete events for a key", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+      const events: Change[] = [];
+      cache.watch("a", (event) => events.push(event));
+
+      cache.set("a", "1");
+      cache.set("b", "other");
+      cache.set("a", "2");
+      cache.delete("a");
+
+      expect(events).toEqual([
+        { type: "set", key: "a", oldValue: undefined, newValue: "1" },
+        { type: "update", key: "a", oldValue: "1", newValue: "2" },
+        { type: "delete", key: "a", oldValue: "2", newValue: undefined, reason: "deleted" },
+      ]);
+      cache.destroy();
+    });
+
+    it("should deliver evict and expire events to cache-wide watchers", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({ maxSize: 2, ttlMs: 100, autoCleanup: false, clock });
+      const events: Change[] = [];
+      cache.watchAll((event) => events.push(event));
+
+      cache.set("a", "1");
+      cache.set("b", "2");
+      cache.set("c", "3");
+      clock.advance(100);
+      cache.get("b");
+      cache.cleanExpired();
+
+      expect(events.map(({ type, key, reason }) => [type, key, reason])).toEqual([
+        ["set", "a", undefined],
+        ["set", "b", undefined],
+        ["set", "c", undefined],
+        ["evict", "a", "lru"],
+        ["expire", "b", "expired"],
+        ["expire", "c", "expired"],
+      ]);
+      expect(events[3].oldValue).toBe("1");
+      cache.destroy();
+    });
+
+    it("should report clears, invalidations and expired overwrites", () => {
+      const clock = new ManualClock();
+      const cache = new Cache<string>({ maxSize: 5, ttlMs: 100, staleWhileRevalidateMs: 1000, autoCleanup: false, clock });
+      const events: Change[] = [];
+      cache.watchAll((event) => events.push(event));
+
+      cache.set("a", "1", { tags: ["t"] });
+      cache.set("b", "2");
+      cache.invalidateTag("t");
+      clock.advance(100);
+      cache.set("b", "3");
+      cache.clear();
+
+      expect(events.map(({ type, key, reason }) => [type, key, reason])).toEqual([
+        ["set", "a", undefined],
+        ["set", "b", undefined],
+        ["delete", "a", "invalidated"],
+        ["set", "b", undefined],
+        ["delete", "b", "cleared"],
+      ]);
+      cache.destroy();
+    });
+
+    it("should deliver events once the cache is consistent", () => {
+      const cache = new Cache<string>({ maxSize: 1, autoCleanup: false });
+      const sizes: number[] = [];
+      cache.watchAll(() => sizes.push(cache.size()));
+
+      cache.set("a", "1");
+      cache.set("b", "2");
+
+      expect(sizes).toEqual([1, 1, 1]);
+      cache.destroy();
+    });
+
+    it("should not report negative entries", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+      const events: Change[] = [];
+      cache.watch("a", (event) => events.push(event));
+
+      cache.setNegative("a");
+      cache.set("a", "1");
+      cache.setNegative("a");
+      cache.delete("a");
+
+      expect(events.map(({ type, reason }) => [type, reason])).toEqual([
+        ["set", undefined],
+        ["delete", "replaced"],
+      ]);
+      cache.destroy();
+    });
+
+    it("should stop delivering after unsubscribing", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+      const events: Change[] = [];
+      const unsubscribe = cache.watch("a", (event) => events.push(event));
+
+      cache.set("a", "1");
+      unsubscribe();
+      cache.set("a", "2");
+
+      expect(events).toHaveLength(1);
+      cache.destroy();
+    });
+
+    it("should iterate events asynchronously", async () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+      const stream = cache.watch("a");
+      const received: string[] = [];
+
+      const consumer = (async () => {
+        for await (const event of stream) {
+          received.push(`${event.type}:${event.newValue}`);
+          if (received.length === 2) break;
+        }
+      })();
+      cache.set("a", "1");
+      await Promise.resolve();
+      cache.set("a", "2");
+      await consumer;
+
+      cache.set("a", "3");
+      expect(received).toEqual(["set:1", "update:2"]);
+      expect(await stream.next()).toEqual({ value: undefined, done: true });
+      cache.destroy();
+    });
+
+    it("should drop the oldest events once a slow iterator's buffer is full", async () => {
+      const cache = new Cache<number>({ maxSize: 10, autoCleanup: false });
+      const stream = cache.watchAll({ bufferSize: 2 });
+
+      for (let i = 0; i < 5; i++) {
+        cache.set(`key${i}`, i);
+      }
+
+      expect(stream.dropped).toBe(3);
+      expect((await stream.next()).value).toMatchObject({ key: "key3" });
+      expect((await stream.next()).value).toMatchObject({ key: "key4" });
+      stream.unsubscribe();
+      expect(await stream.next()).toEqual({ value: undefined, done: true });
+      cache.destroy();
+    });
+
+    it("should resolve queued next calls in order", async () => {
+      const cache = new Cache<number>({ maxSize: 5, autoCleanup: false });
+      const stream = cache.watchAll();
+
+      const first = stream.next();
+      const second = stream.next();
+      const third = stream.next();
+      cache.set("a", 1);
+      cache.set("b", 2);
+      stream.unsubscribe();
+
+      const results = await Promise.all([first, second, third]);
+      expect(results.map(({ value }) => value && value.key)).toEqual(["a", "b", undefined]);
+      expect(results[2].done).toBe(true);
+      cache.destroy();
+    });
+
+    it("should end iterators when the cache is destroyed", async () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+      cache.set("a", "1");
+      const stream = cache.watchAll();
+
+      const pending = stream.next();
+      cache.destroy();
+
+      expect((await pending).value).toMatchObject({ type: "delete", reason: "cleared" });
+      expect(await stream.next()).toEqual({ value: undefined, done: true });
+    });
+
+    it("should tell keys apart that share a hash", () => {
+      const cache = new Cache<string, [number, number]>({
+        maxSize: 5,
+        autoCleanup: false,
+        keyHash: ([a, b]) => a + b,
+        keyEquals: (x, y) => x[0] === y[0] && x[1] === y[1],
+      });
+      const events: ChangeEvent<string, [number, number]>[] = [];
+      cache.watch([1, 2], (event) => events.push(event));
+
+      cache.set([2, 1], "other");
+      cache.set([1, 2], "mine");
+
+      expect(events.map(({ type, key }) => [type, key])).toEqual([["set", [1, 2]]]);
+      cache.destroy();
+    });
+
+    it("should deliver to every listener when one throws, then rethrow the first error", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+      const events: string[] = [];
+      cache.watch("a", () => {
+        throw new Error("listener failed");
+      });
+      cache.watchAll((event) => events.push(`${event.type}:${event.key}`));
+
+      expect(() => cache.set("a", "1")).toThrow("listener failed");
+      cache.set("b", "2");
+
+      expect(events).toEqual(["set:a", "set:b"]);
+      expect(() => cache.destroy()).toThrow("listener failed");
+      expect(events).toEqual(["set:a", "set:b", "delete:a", "delete:b"]);
+    });
+
+    it("should validate the buffer size", () => {
+      const cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+
+      expect(() => cache.watchAll({ bufferSize: 0 })).toThrow("bufferSize must be a positive finite number");
+      cache.destroy();
+    });
+  });
+});
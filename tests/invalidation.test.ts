@@ -0,0 +1,214 @@
+import { describe, it, expect } from '@jest/globals';
+import cluster from "cluster";
+import {
+  BroadcastChannelTransport,
+  Cache,
+  ClusterTransport,
+  InvalidationBus,
+  InvalidationMessage,
+  InvalidationTransport,
+} from "../src/index";
+
+// Delivers every message to every subscriber, including the sender, like a loopback network
+class HubTransport implements InvalidationTransport {
+  static listeners = new Set<(message: InvalidationMessage) => void>();
+  published: InvalidationMessage[] = [];
+
+  publish(message: InvalidationMessage): void {
+    this.published.push(message);
+    for (const listener of HubTransport.listeners) {
+      listener(message);
+    }
+  }
+
+  subscribe(listener: (message: InvalidationMessage) => void): () => void {
+    HubTransport.listeners.add(listener);
+    return () => HubTransport.listeners.delete(listener);
+  }
+
+  close(): void {}
+}
+
+function createPeers(count: number) {
+  return Array.from({ length: count }, () => {
+    const cache = new Cache<number>({ maxSize: 10, autoCleanup: false });
+    const transport = new HubTransport();
+    return { cache, transport, bus: new InvalidationBus(cache, transport) };
+  });
+}
+
+function closePeers(peers: ReturnType<typeof createPeers>): void {
+  for (const peer of peers) {
+    peer.bus.close();
+    peer.cache.destroy();
+  }
+}
+
+function tick(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+describe("InvalidationBus", () => {
+  it("should apply deletes to every peer", () => {
+    const peers = createPeers(3);
+    for (const { cache } of peers) {
+      cache.set("a", 1);
+      cache.set("b", 2);
+    }
+
+    expect(peers[0].bus.delete("a")).toBe(true);
+
+    for (const { cache } of peers) {
+      expect(cache.has("a")).toBe(false);
+      expect(cache.has("b")).toBe(true);
+    }
+    closePeers(peers);
+  });
+
+  it("should apply clears and tag invalidations to every peer", () => {
+    const peers = createPeers(2);
+    for (const { cache } of peers) {
+      cache.set("a", 1, { tags: ["user:1"] });
+      cache.set("b", 2);
+    }
+
+    expect(peers[1].bus.invalidateTag("user:1")).toBe(1);
+    expect(peers[0].cache.has("a")).toBe(false);
+    expect(peers[0].cache.has("b")).toBe(true);
+
+    peers[0].bus.clear();
+    expect(peers[1].cache.size()).toBe(0);
+    closePeers(peers);
+  });
+
+  it("should not rebroadcast messages from peers", () => {
+    const peers = createPeers(2);
+
+    peers[0].bus.delete("a");
+
+    expect(peers[0].transport.published).toHaveLength(1);
+    expect(peers[1].transport.published).toHaveLength(0);
+    expect(peers[0].transport.published[0].origin).toBe(peers[0].bus.origin);
+    closePeers(peers);
+  });
+
+  it("should not let an older versioned delete remove a newer value", () => {
+    const peers = createPeers(2);
+    peers[1].cache.set("a", 1, { version: 5 });
+
+    peers[0].bus.delete("a", { version: 4 });
+    expect(peers[1].cache.get("a")).toBe(1);
+
+    peers[0].bus.delete("a", { version: 5 });
+    expect(peers[1].cache.has("a")).toBe(false);
+    closePeers(peers);
+  });
+
+  it("should report callback errors from applying a peer's message to onError", () => {
+    const errors: unknown[] = [];
+    const sender = createPeers(1)[0];
+    const cache = new Cache<number>({
+      maxSize: 10,
+      autoCleanup: false,
+      onEvict: () => {
+        throw new Error("onEvict boom");
+      },
+    });
+    const bus = new InvalidationBus(cache, new HubTransport(), { onError: (error) => errors.push(error) });
+    cache.set("a", 1);
+    cache.set("b", 2);
+
+    expect(() => sender.bus.delete("a")).not.toThrow();
+    expect(() => sender.bus.clear()).not.toThrow();
+
+    expect(errors).toEqual([new Error("onEvict boom"), new Error("onEvict boom")]);
+    expect(cache.size()).toBe(0);
+    bus.close();
+    closePeers([sender]);
+  });
+
+  it("should stop applying messages once closed", () => {
+    const peers = createPeers(2);
+    peers[1].cache.set("a", 1);
+    peers[1].bus.close();
+
+    peers[0].bus.delete("a");
+
+    expect(peers[1].cache.has("a")).toBe(true);
+    closePeers(peers);
+  });
+});
+
+describe("Versioned deletes", () => {
+  it("should only delete values that are not newer than the delete", () => {
+    const cache = new Cache<number>({ maxSize: 10, autoCleanup: false });
+    cache.set("a", 1, { version: 3 });
+    cache.set("b", 2);
+
+    expect(cache.delete("a", { version: 2 })).toBe(false);
+    expect(cache.delete("a", { version: 3 })).toBe(true);
+    expect(cache.delete("b", { version: 0 })).toBe(true);
+
+    cache.destroy();
+  });
+
+  it("should keep the version of a fetched value", async () => {
+    const cache = new Cache<number>({ maxSize: 10, autoCleanup: false });
+    await cache.fetch("a", () => 1, { version: 5 });
+
+    expect(cache.delete("a", { version: 1 })).toBe(false);
+    expect(cache.get("a")).toBe(1);
+    expect(cache.delete("a", { version: 5 })).toBe(true);
+
+    cache.destroy();
+  });
+
+  it("should reject versions that are not finite numbers", () => {
+    const cache = new Cache<number>({ maxSize: 10, autoCleanup: false });
+
+    expect(() => cache.set("a", 1, { version: NaN })).toThrow("version must be a finite number");
+
+    cache.destroy();
+  });
+});
+
+describe("BroadcastChannelTransport", () => {
+  it("should carry invalidations between channels with the same name", async () => {
+    const caches = [0, 1].map(() => new Cache<number>({ maxSize: 10, autoCleanup: false }));
+    const buses = caches.map((cache) => new InvalidationBus(cache, new BroadcastChannelTransport("bus-test")));
+    for (const cache of caches) {
+      cache.set("a", 1, { tags: ["t"] });
+      cache.set("b", 2);
+    }
+
+    buses[0].delete("b");
+    await tick();
+    expect(caches[1].has("b")).toBe(false);
+
+    buses[1].invalidateTag("t");
+    await tick();
+    expect(caches[0].size()).toBe(0);
+
+    for (const bus of buses) bus.close();
+    for (const cache of caches) cache.destroy();
+  });
+});
+
+describe("ClusterTransport", () => {
+  it("should deliver messages relayed from workers in the primary", () => {
+    const transport = new ClusterTransport("cluster-test");
+    const received: InvalidationMessage[] = [];
+    transport.subscribe((message) => received.push(message));
+
+    const message: InvalidationMessage = { type: "clear", origin: "worker-1" };
+    cluster.emit("message", { id: 1 }, { hybridLruChannel: "cluster-test", message });
+    cluster.emit("message", { id: 1 }, { hybridLruChannel: "other", message });
+    cluster.emit("message", { id: 1 }, "unrelated");
+
+    expect(received).toEqual([message]);
+
+    transport.close();
+    cluster.emit("message", { id: 1 }, { hybridLruChannel: "cluster-test", message });
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect } from '@jest/globals';
+import { argumentsKey, Cache, ManualClock, memoize } from "../src/index";
+
+describe("memoize", () => {
+  it("should cache results of sync functions per argument list", () => {
+    let calls = 0;
+    const add = memoize((a: number, b: number) => {
+      calls++;
+      return a + b;
+    });
+
+    expect(add(1, 2)).toBe(3);
+    expect(add(1, 2)).toBe(3);
+    expect(add(2, 1)).toBe(3);
+    expect(calls).toBe(2);
+
+    add.cache.destroy();
+  });
+
+  it("should share one call between concurrent async callers", async () => {
+    let calls = 0;
+    const load = memoize(async (id: number) => {
+      calls++;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return { id };
+    });
+
+    const results = await Promise.all([load(1), load(1), load(1)]);
+
+    expect(calls).toBe(1);
+    expect(results[0]).toBe(results[2]);
+    expect(await load(1)).toBe(results[0]);
+    expect(calls).toBe(1);
+
+    load.cache.destroy();
+  });
+
+  it("should detect promise-returning functions that are not declared async", async () => {
+    let calls = 0;
+    const load = memoize((id: string) => {
+      calls++;
+      return Promise.resolve(id.toUpperCase());
+    });
+
+    const first = load("a");
+    const second = load("a");
+
+    expect(first).toBeInstanceOf(Promise);
+    expect(second).toBeInstanceOf(Promise);
+    expect(await first).toBe("A");
+    expect(await second).toBe("A");
+    expect(calls).toBe(1);
+
+    load.cache.destroy();
+  });
+
+  it("should not cache thrown errors or rejections", async () => {
+    let calls = 0;
+    const fail = memoize(async () => {
+      calls++;
+      throw new Error("boom");
+    });
+
+    await expect(fail()).rejects.toThrow("boom");
+    await expect(fail()).rejects.toThrow("boom");
+    expect(calls).toBe(2);
+
+    fail.cache.destroy();
+  });
+
+  it("should invalidate the result for given arguments", () => {
+    let calls = 0;
+    const square = memoize((n: number) => {
+      calls++;
+      return n * n;
+    });
+
+    square(3);
+    square(4);
+    expect(square.invalidate(3)).toBe(true);
+    expect(square.invalidate(5)).toBe(false);
+    square(3);
+    square(4);
+
+    expect(calls).toBe(3);
+    square.cache.destroy();
+  });
+
+  it("should expire results after ttlMs", () => {
+    const clock = new ManualClock();
+    let calls = 0;
+    const now = memoize(() => ++calls, { ttlMs: 100, clock, autoCleanup: false });
+
+    expect(now()).toBe(1);
+    clock.advance(50);
+    expect(now()).toBe(1);
+    clock.advance(50);
+    expect(now()).toBe(2);
+
+    now.cache.destroy();
+  });
+
+  it("should use a custom key function", () => {
+    let calls = 0;
+    const getUser = memoize((user: { id: number; name: string }) => {
+      calls++;
+      return user.name;
+    }, { key: (user) => `user:${user.id}` });
+
+    getUser({ id: 1, name: "Ada" });
+    expect(getUser({ id: 1, name: "changed" })).toBe("Ada");
+    expect(getUser.cache.has("user:1")).toBe(true);
+    expect(calls).toBe(1);
+
+    getUser.cache.destroy();
+  });
+
+  it("should keep this for methods", () => {
+    const counter = {
+      step: 10,
+      next: memoize(function (this: { step: number }, n: number) {
+        return n + this.step;
+      }),
+    };
+
+    expect(counter.next(1)).toBe(11);
+    counter.next.cache.destroy();
+  });
+});
+
+describe("Cache.wrap", () => {
+  it("should memoize into an existing cache", async () => {
+    const cache = new Cache<string>({ maxSize: 10, autoCleanup: false });
+    let calls = 0;
+    const fetchName = cache.wrap(async (id: number) => {
+      calls++;
+      return `name${id}`;
+    }, { key: (id) => `name:${id}`, ttlMs: 5000 });
+
+    expect(await fetchName(1)).toBe("name1");
+    expect(await fetchName(1)).toBe("name1");
+    expect(calls).toBe(1);
+    expect(cache.get("name:1")).toBe("name1");
+    expect(cache.getRemainingTtl("name:1")).toBeLessThanOrEqual(5000);
+    expect(fetchName.cache).toBe(cache);
+
+    cache.destroy();
+  });
+
+  it("should call sync functions for negative entries and remembered errors", async () => {
+    const cache = new Cache<number>({ maxSize: 10, autoCleanup: false, rejectionTtlMs: 1000 });
+    const double = cache.wrap((x: number) => x * 2);
+
+    cache.setNegative("[5]");
+    expect(cache.lookup("[5]").status).toBe("negative");
+    expect(double(5)).toBe(10);
+    expect(cache.lookup("[5]")).toEqual({ status: "fresh", value: 10 });
+
+    await expect(cache.fetch("[6]", () => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    expect(cache.lookup("[6]").status).toBe("error");
+    expect(double(6)).toBe(12);
+    expect(cache.get("[6]")).toBe(12);
+
+    cache.destroy();
+  });
+
+  it("should reject non-functions", () => {
+    const cache = new Cache<string>({ maxSize: 10, autoCleanup: false });
+
+    expect(() => cache.wrap(null as unknown as () => string)).toThrow("fn must be a function");
+
+    cache.destroy();
+  });
+});
+
+describe("argumentsKey", () => {
+  it("should be stable for plain objects regardless of key order", () => {
+    expect(argumentsKey({ a: 1, b: [1, 2] })).toBe(argumentsKey({ b: [1, 2], a: 1 }));
+  });
+
+  it("should tell apart values that stringify alike", () => {
+    const keys = [
+      argumentsKey(1),
+      argumentsKey("1"),
+      argumentsKey([1]),
+      argumentsKey(BigInt(1)),
+      argumentsKey(null),
+      argumentsKey(undefined),
+      argumentsKey(),
+      argumentsKey(-0),
+      argumentsKey(new Date(1)),
+      argumentsKey({ "1": 1 }),
+    ];
+
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it("should refuse arguments it cannot serialize stably", () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    expect(() => argumentsKey(() => 1)).toThrow("cannot derive a key from a function or symbol argument");
+    expect(() => argumentsKey(new Map())).toThrow("cannot derive a key from a class instance argument");
+    expect(() => argumentsKey(circular)).toThrow("cannot derive a key from a circular argument");
+  });
+});
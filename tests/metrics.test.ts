@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { Cache, CacheStats, formatPrometheus } from "../src/index";
+
+describe("formatPrometheus", () => {
+  const stats: CacheStats = {
+    hits: 3,
+    misses: 1,
+    negativeHits: 2,
+    expiredOnRead: 1,
+    evictions: 2,
+    sweeperRemovals: 4,
+    sets: 5,
+    overwrites: 1,
+    deletes: 0,
+    collected: 1,
+    hitRatio: 0.75,
+    size: 2,
+  };
+
+  it("should render counters and gauges with the cache label", () => {
+    const text = formatPrometheus({ name: "users", stats });
+
+    expect(text).toContain("# TYPE hybrid_lru_hits_total counter\n");
+    expect(text).toContain('hybrid_lru_hits_total{cache="users"} 3\n');
+    expect(text).toContain('hybrid_lru_sweeper_removals_total{cache="users"} 4\n');
+    expect(text).toContain('hybrid_lru_negative_hits_total{cache="users"} 2\n');
+    expect(text).toContain("# TYPE hybrid_lru_hit_ratio gauge\n");
+    expect(text).toContain('hybrid_lru_hit_ratio{cache="users"} 0.75\n');
+    expect(text).toContain('hybrid_lru_size{cache="users"} 2\n');
+  });
+
+  it("should declare each metric once for several caches", () => {
+    const text = formatPrometheus([
+      { name: "users", stats },
+      { name: "flags", stats: { ...stats, hits: 7 } },
+    ]);
+
+    expect(text.match(/# TYPE hybrid_lru_hits_total/g)).toHaveLength(1);
+    expect(text).toContain('hybrid_lru_hits_total{cache="users"} 3\n');
+    expect(text).toContain('hybrid_lru_hits_total{cache="flags"} 7\n');
+  });
+
+  it("should apply a custom prefix and label", () => {
+    const text = formatPrometheus({ name: "users", stats }, { prefix: "app_cache", label: "name" });
+
+    expect(text).toContain('app_cache_misses_total{name="users"} 1\n');
+  });
+
+  it("should escape label values", () => {
+    const text = formatPrometheus({ name: 'a"b\\c\nd', stats });
+
+    expect(text).toContain('hybrid_lru_size{cache="a\\"b\\\\c\\nd"} 2\n');
+  });
+
+  it("should reject invalid metric and label names", () => {
+    expect(() => formatPrometheus({ name: "users", stats }, { prefix: "1bad" })).toThrow(
+      "prefix must be a valid Prometheus metric name"
+    );
+    expect(() => formatPrometheus({ name: "users", stats }, { label: "bad-label" })).toThrow(
+      "label must be a valid Prometheus label name"
+    );
+  });
+
+  it("should render live cache stats", () => {
+    const cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+    cache.set("a", "1");
+    cache.get("a");
+
+    const text = formatPrometheus({ name: "live", stats: cache.stats() });
+    expect(text).toContain('hybrid_lru_hits_total{cache="live"} 1\n');
+    expect(text).toContain('hybrid_lru_sets_total{cache="live"} 1\n');
+
+    cache.destroy();
+  });
+});
@@ -0,0 +1,365 @@
+import { describe, it, expect } from '@jest/globals';
+import { Cache, EvictionPolicy, LruPolicy, Node, PolicyName } from "../src/index";
+import { CountMinSketch } from "../src/policies";
+
+const policies: PolicyName[] = ["lru", "lfu", "fifo", "arc", "w-tinylfu"];
+
+describe.each(policies)("Eviction policy contract (%s)", (policy) => {
+  function createCache(options: { maxSize?: number; ttlMs?: number; onEvict?: (key: string) => void } = {}) {
+    return new Cache<number>({ maxSize: 10, autoCleanup: false, policy, ...options });
+  }
+
+  it("should never hold more than maxSize items", () => {
+    const cache = createCache();
+
+    for (let i = 0; i < 200; i++) {
+      cache.set(`key${i}`, i);
+      cache.get(`key${i % 7}`);
+      expect(cache.size()).toBeLessThanOrEqual(10);
+    }
+
+    expect(cache.size()).toBe(10);
+    cache.destroy();
+  });
+
+  it("should report every eviction exactly once", () => {
+    const evicted: string[] = [];
+    const cache = createCache({ onEvict: (key) => evicted.push(key) });
+
+    for (let i = 0; i < 50; i++) {
+      cache.set(`key${i}`, i);
+    }
+    const live = [...cache.keys()];
+
+    expect(evicted).toHaveLength(40);
+    expect(new Set([...evicted, ...live]).size).toBe(50);
+    cache.destroy();
+  });
+
+  it("should keep the item being inserted", () => {
+    const cache = createCache({ maxSize: 3 });
+
+    for (let i = 0; i < 20; i++) {
+      cache.set(`key${i}`, i);
+      cache.get("key0");
+      expect(cache.get(`key${i}`)).toBe(i);
+    }
+
+    cache.destroy();
+  });
+
+  it("should iterate every live item exactly once", () => {
+    const cache = createCache();
+
+    for (let i = 0; i < 30; i++) {
+      cache.set(`key${i}`, i);
+      cache.get(`key${i % 4}`);
+    }
+    const forward = [...cache.keys()];
+    const backward = [...cache.keys({ reverse: true })];
+
+    expect(forward).toHaveLength(cache.size());
+    expect(new Set(forward).size).toBe(forward.length);
+    expect(backward).toEqual([...forward].reverse());
+    for (const key of forward) {
+      expect(cache.has(key)).toBe(true);
+    }
+    cache.destroy();
+  });
+
+  it("should overwrite values without growing", () => {
+    const cache = createCache();
+
+    cache.set("key", 1);
+    cache.set("key", 2);
+
+    expect(cache.get("key")).toBe(2);
+    expect(cache.size()).toBe(1);
+    cache.destroy();
+  });
+
+  it("should shrink to a new maxSize and keep respecting it", () => {
+    const cache = createCache();
+
+    for (let i = 0; i < 30; i++) {
+      cache.set(`key${i}`, i);
+      cache.get(`key${i % 3}`);
+    }
+    cache.setMaxSize(4);
+    expect(cache.size()).toBe(4);
+    expect([...cache.keys()]).toHaveLength(4);
+
+    for (let i = 0; i < 30; i++) {
+      cache.set(`again${i}`, i);
+      expect(cache.size()).toBeLessThanOrEqual(4);
+    }
+    cache.destroy();
+  });
+
+  it("should keep working after deletes, expiry and clear", () => {
+    const cache = createCache({ maxSize: 5, ttlMs: 100 });
+
+    for (let i = 0; i < 5; i++) {
+      cache.set(`key${i}`, i);
+      cache.get(`key${i}`);
+    }
+    cache.delete("key2");
+    expect(cache.size()).toBe(4);
+
+    expect(cache.cleanExpired(Date.now() + 200)).toBe(4);
+    expect([...cache.keys()]).toEqual([]);
+
+    for (let i = 0; i < 20; i++) {
+      cache.set(`again${i}`, i);
+    }
+    expect(cache.size()).toBe(5);
+
+    cache.clear();
+    cache.set("after", 1);
+    expect([...cache.keys()]).toEqual(["after"]);
+    cache.destroy();
+  });
+});
+
+describe("Eviction policies", () => {
+  it("lru should evict the least recently used item", () => {
+    const cache = new Cache<number>({ maxSize: 3, autoCleanup: false, policy: "lru" });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.set("c", 3);
+    cache.get("a");
+    cache.set("d", 4);
+
+    expect([...cache.keys()].sort()).toEqual(["a", "c", "d"]);
+    cache.destroy();
+  });
+
+  it("fifo should evict the oldest insert regardless of reads", () => {
+    const cache = new Cache<number>({ maxSize: 3, autoCleanup: false, policy: "fifo" });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.set("c", 3);
+    cache.get("a");
+    cache.set("d", 4);
+
+    expect([...cache.keys()]).toEqual(["d", "c", "b"]);
+    cache.destroy();
+  });
+
+  it("lfu should evict the least frequently used item, oldest first on ties", () => {
+    const cache = new Cache<number>({ maxSize: 3, autoCleanup: false, policy: "lfu" });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.set("c", 3);
+    cache.get("a");
+    cache.get("a");
+    cache.get("b");
+    cache.set("d", 4);
+
+    expect([...cache.keys()]).toEqual(["a", "b", "d"]);
+
+    cache.set("e", 5);
+    expect([...cache.keys()]).toEqual(["a", "b", "e"]);
+    cache.destroy();
+  });
+
+  it("arc should readmit keys evicted too early as frequent", () => {
+    const cache = new Cache<number>({ maxSize: 2, autoCleanup: false, policy: "arc" });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.set("c", 3); // evicts "a" into the recency ghost list
+    cache.set("a", 1); // ghost hit: "a" goes straight to the frequency list
+
+    cache.set("d", 4);
+    cache.set("e", 5);
+
+    expect(cache.has("a")).toBe(true);
+    cache.destroy();
+  });
+
+  it("should accept a custom policy instance", () => {
+    const calls: string[] = [];
+
+    class RecordingPolicy<T, K> extends LruPolicy<T, K> {
+      onInsert(node: Node<T, K>): void {
+        calls.push(`insert:${node.key}`);
+        super.onInsert(node);
+      }
+
+      selectVictim(): Node<T, K> | null {
+        calls.push("victim");
+        return super.selectVictim();
+      }
+    }
+
+    const policy: EvictionPolicy<number, string> = new RecordingPolicy();
+    const cache = new Cache<number>({ maxSize: 1, autoCleanup: false, policy });
+    cache.set("a", 1);
+    cache.set("b", 2);
+
+    expect(calls).toEqual(["insert:a", "insert:b", "victim"]);
+    expect([...cache.keys()]).toEqual(["b"]);
+    cache.destroy();
+  });
+
+  it("should reject unknown policy names", () => {
+    expect(() => new Cache({ maxSize: 1, policy: "mru" as PolicyName }))
+      .toThrow("policy must be one of lru, lfu, fifo, arc, w-tinylfu or an EvictionPolicy");
+  });
+});
+
+describe("CountMinSketch", () => {
+  it("should estimate how often a key was seen", () => {
+    const sketch = new CountMinSketch(64);
+
+    for (let i = 0; i < 5; i++) {
+      sketch.increment(42);
+    }
+    sketch.increment(7);
+
+    expect(sketch.frequency(42)).toBe(5);
+    expect(sketch.frequency(7)).toBe(1);
+    expect(sketch.frequency(1234)).toBe(0);
+  });
+
+  it("should saturate counters at 15", () => {
+    const sketch = new CountMinSketch(64);
+
+    for (let i = 0; i < 40; i++) {
+      sketch.increment(42);
+    }
+
+    expect(sketch.frequency(42)).toBe(15);
+  });
+
+  it("should halve counters once the sample size is reached", () => {
+    const sketch = new CountMinSketch(16);
+
+    for (let i = 0; i < 8; i++) {
+      sketch.increment(1);
+    }
+    // Sixteen columns make for a sample size of 160 increments
+    for (let i = 0; i < 152; i++) {
+      sketch.increment(2);
+    }
+
+    expect(sketch.frequency(1)).toBe(4);
+    expect(sketch.frequency(2)).toBe(7);
+  });
+
+  it("should forget everything on clear", () => {
+    const sketch = new CountMinSketch(16);
+    sketch.increment(1);
+    sketch.clear();
+
+    expect(sketch.frequency(1)).toBe(0);
+  });
+});
+
+describe("W-TinyLFU policy", () => {
+  const hotKeys = Array.from({ length: 50 }, (_, i) => `hot${i}`);
+
+  function warmAndScan(policy: "lru" | "w-tinylfu"): number {
+    const cache = new Cache<number>({ maxSize: 100, autoCleanup: false, policy });
+
+    for (let round = 0; round < 5; round++) {
+      for (const key of hotKeys) {
+        if (cache.get(key) === null) {
+          cache.set(key, round);
+        }
+      }
+    }
+
+    // A one-off scan touching many keys only once
+    for (let i = 0; i < 1000; i++) {
+      cache.set(`scan${i}`, i);
+    }
+
+    const survivors = hotKeys.filter((key) => cache.has(key)).length;
+    cache.destroy();
+    return survivors;
+  }
+
+  it("should keep frequently used entries through a scan", () => {
+    expect(warmAndScan("lru")).toBe(0);
+    expect(warmAndScan("w-tinylfu")).toBeGreaterThanOrEqual(45);
+  });
+
+  it("should still respect maxSize", () => {
+    const cache = new Cache<number>({ maxSize: 10, autoCleanup: false, policy: "w-tinylfu" });
+
+    for (let i = 0; i < 100; i++) {
+      cache.set(`key${i}`, i);
+    }
+
+    expect(cache.size()).toBe(10);
+    expect([...cache.keys()]).toHaveLength(10);
+
+    cache.destroy();
+  });
+
+  it("should admit new entries that become popular", () => {
+    const cache = new Cache<number>({ maxSize: 10, autoCleanup: false, policy: "w-tinylfu" });
+
+    for (let i = 0; i < 10; i++) {
+      cache.set(`key${i}`, i);
+    }
+
+    for (let round = 0; round < 5; round++) {
+      if (cache.get("popular") === null) {
+        cache.set("popular", round);
+      }
+    }
+
+    expect(cache.has("popular")).toBe(true);
+    expect(cache.size()).toBe(10);
+
+    cache.destroy();
+  });
+
+  it("should report rejected candidates as lru evictions", () => {
+    const evicted: [string, string][] = [];
+    const cache = new Cache<number>({
+      maxSize: 2,
+      autoCleanup: false,
+      policy: "w-tinylfu",
+      onEvict: (key, _value, reason) => evicted.push([key, reason]),
+    });
+
+    cache.set("a", 1);
+    cache.get("a");
+    cache.get("a");
+    cache.set("b", 2);
+    cache.set("c", 3);
+    cache.set("d", 4);
+
+    expect(cache.size()).toBe(2);
+    expect(cache.has("a")).toBe(true);
+    expect(evicted).toHaveLength(2);
+    expect(evicted.every(([, reason]) => reason === "lru")).toBe(true);
+
+    cache.destroy();
+  });
+
+  it("should handle deletes, expiry and clear", () => {
+    const cache = new Cache<number>({ maxSize: 5, autoCleanup: false, policy: "w-tinylfu", ttlMs: 100 });
+
+    for (let i = 0; i < 5; i++) {
+      cache.set(`key${i}`, i);
+      cache.get(`key${i}`);
+    }
+
+    cache.delete("key2");
+    expect(cache.size()).toBe(4);
+
+    expect(cache.cleanExpired(Date.now() + 200)).toBe(4);
+    expect([...cache.keys()]).toEqual([]);
+
+    cache.set("again", 1);
+    cache.clear();
+    cache.set("after", 2);
+    expect([...cache.keys()]).toEqual(["after"]);
+
+    cache.destroy();
+  });
+});
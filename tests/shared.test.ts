@@ -0,0 +1,260 @@
+import { describe, it, expect } from '@jest/globals';
+import { MessageChannel, Worker } from "worker_threads";
+import { join } from "path";
+import { ManualClock, SharedCache, SharedCacheHandle } from "../src/index";
+
+interface WorkerReport {
+  operations: number;
+  // Reads that returned another key's value, and times size() exceeded maxSize
+  mismatches: number;
+  oversized: number;
+}
+
+// Hammers a shared cache from a worker thread. Workers cannot load the TypeScript
+// sources on their own, so the worker transpiles them with the compiler first.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const fs = require("fs");
+const ts = require("typescript");
+
+const modules = {};
+function load(file) {
+  const source = fs.readFileSync(workerData.srcDir + "/" + file, "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2017 },
+  });
+  const module = { exports: {} };
+  new Function("require", "module", "exports", outputText)(
+    (name) => modules[name] || require(name), module, module.exports
+  );
+  return module.exports;
+}
+modules["./clock.js"] = load("clock.ts");
+const { SharedCache } = load("shared.ts");
+
+const cache = SharedCache.attach(workerData.handle);
+const report = { operations: 0, mismatches: 0, oversized: 0 };
+let seed = workerData.id + 1;
+const random = (limit) => {
+  seed = (Math.imul(seed, 1103515245) + 12345) & 0x7fffffff;
+  return seed % limit;
+};
+
+// Wait for every worker, so the operations really overlap
+Atomics.add(workerData.ready, 0, 1);
+while (Atomics.load(workerData.ready, 0) < workerData.workers) {}
+
+for (let i = 0; i < workerData.operations; i++) {
+  const key = "k" + random(workerData.keys);
+  const operation = random(10);
+  if (operation < 4) {
+    cache.set(key, key + "/" + workerData.id);
+  } else if (operation < 8) {
+    const value = cache.get(key);
+    if (value !== null && value.split("/")[0] !== key) report.mismatches++;
+  } else {
+    cache.delete(key);
+  }
+  if (cache.size() > workerData.maxSize) report.oversized++;
+  report.operations++;
+}
+
+parentPort.postMessage(report);
+`;
+
+describe("SharedCache", () => {
+  function createCache(clock = new ManualClock()) {
+    return SharedCache.create({ maxSize: 3, maxValueBytes: 16, ttlMs: 100, clock });
+  }
+
+  it("should store and read string values", () => {
+    const cache = createCache();
+    cache.set("a", "héllo");
+
+    expect(cache.get("a")).toBe("héllo");
+    expect(cache.has("a")).toBe(true);
+    expect(cache.get("missing")).toBeNull();
+    expect(cache.size()).toBe(1);
+  });
+
+  it("should overwrite values without growing", () => {
+    const cache = createCache();
+    cache.set("a", "long value");
+    cache.set("a", "short");
+
+    expect(cache.get("a")).toBe("short");
+    expect(cache.size()).toBe(1);
+  });
+
+  it("should store copies of binary values", () => {
+    const cache = SharedCache.create<Uint8Array>({ maxSize: 2, maxValueBytes: 4, valueType: "binary" });
+    const value = new Uint8Array([1, 2, 3]);
+    cache.set("a", value);
+    value[0] = 9;
+
+    const stored = cache.get("a") as Uint8Array;
+    expect([...stored]).toEqual([1, 2, 3]);
+    expect(stored.buffer).not.toBeInstanceOf(SharedArrayBuffer);
+  });
+
+  it("should evict the least recently used entry when full", () => {
+    const cache = createCache();
+    cache.set("a", "1");
+    cache.set("b", "2");
+    cache.set("c", "3");
+    cache.get("a");
+    cache.set("d", "4");
+
+    expect(cache.has("b")).toBe(false);
+    expect(cache.get("a")).toBe("1");
+    expect(cache.get("c")).toBe("3");
+    expect(cache.get("d")).toBe("4");
+    expect(cache.size()).toBe(3);
+  });
+
+  it("should expire entries by their ttl", () => {
+    const clock = new ManualClock();
+    const cache = createCache(clock);
+    cache.set("short", "1");
+    cache.set("long", "2", { ttlMs: 1000 });
+    cache.set("forever", "3", { ttlMs: Infinity });
+
+    clock.advance(100);
+    expect(cache.get("short")).toBeNull();
+    expect(cache.size()).toBe(2);
+
+    expect(cache.cleanExpired(clock.now() + 1000)).toBe(1);
+    expect(cache.get("forever")).toBe("3");
+    expect(cache.size()).toBe(1);
+  });
+
+  it("should delete and clear entries", () => {
+    const cache = createCache();
+    cache.set("a", "1");
+    cache.set("b", "2");
+
+    expect(cache.delete("a")).toBe(true);
+    expect(cache.delete("a")).toBe(false);
+    expect(cache.size()).toBe(1);
+
+    cache.clear();
+    expect(cache.size()).toBe(0);
+    cache.set("c", "3");
+    expect(cache.get("c")).toBe("3");
+  });
+
+  it("should reuse slots after many deletes and evictions", () => {
+    const cache = SharedCache.create({ maxSize: 8, maxValueBytes: 8 });
+
+    for (let i = 0; i < 200; i++) {
+      cache.set(`key${i}`, `${i}`);
+      if (i % 3 === 0) {
+        cache.delete(`key${i - 1}`);
+      }
+      expect(cache.size()).toBeLessThanOrEqual(8);
+    }
+
+    expect(cache.get("key199")).toBe("199");
+    expect(cache.get("key198")).toBe("198");
+  });
+
+  it("should share entries with caches attached to its handle", () => {
+    const clock = new ManualClock();
+    const cache = createCache(clock);
+    const attached = SharedCache.attach(cache.handle(), { clock });
+
+    cache.set("a", "1");
+    expect(attached.get("a")).toBe("1");
+
+    attached.set("b", "2");
+    attached.delete("a");
+    expect(cache.get("b")).toBe("2");
+    expect(cache.has("a")).toBe(false);
+    expect(cache.size()).toBe(1);
+  });
+
+  it("should attach to a handle received over a MessageChannel", async () => {
+    const cache = createCache();
+    const { port1, port2 } = new MessageChannel();
+
+    const received = new Promise<SharedCacheHandle>((resolve) => port2.once("message", resolve));
+    port1.postMessage(cache.handle());
+    const attached = SharedCache.attach(await received);
+    port1.close();
+
+    attached.set("a", "from afar");
+    expect(cache.get("a")).toBe("from afar");
+  });
+
+  it("should stay consistent under concurrent use from several worker threads", async () => {
+    const maxSize = 8;
+    const keys = 24;
+    const cache = SharedCache.create({ maxSize, maxValueBytes: 8 });
+    const ready = new Int32Array(new SharedArrayBuffer(4));
+    // Jest runs from the repository root
+    const srcDir = join(process.cwd(), "src");
+
+    const workers = [0, 1, 2].map((id) => new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { handle: cache.handle(), id, workers: 3, operations: 20000, keys, maxSize, ready, srcDir },
+    }));
+    // A corrupted chain can loop forever, so give up on workers that never report
+    let deadline: NodeJS.Timeout | undefined;
+    let reports: WorkerReport[];
+    try {
+      reports = await Promise.race([
+        Promise.all(workers.map((worker) => new Promise<WorkerReport>((resolve, reject) => {
+          worker.once("message", resolve);
+          worker.once("error", reject);
+        }))),
+        new Promise<never>((_, reject) => {
+          deadline = setTimeout(() => reject(new Error("workers did not finish")), 30000);
+        }),
+      ]);
+    } finally {
+      clearTimeout(deadline);
+      await Promise.all(workers.map((worker) => worker.terminate()));
+    }
+
+    for (const report of reports) {
+      expect(report).toEqual({ operations: 20000, mismatches: 0, oversized: 0 });
+    }
+
+    // Every entry counted by size() must be reachable through its bucket chain
+    const all = Array.from({ length: keys }, (_, i) => `k${i}`);
+    const live = all.filter((key) => cache.has(key));
+    expect(cache.size()).toBeLessThanOrEqual(maxSize);
+    expect(live).toHaveLength(cache.size());
+    for (const key of live) {
+      expect((cache.get(key) as string).split("/")[0]).toBe(key);
+    }
+
+    // And the free list must hand every slot back out
+    live.forEach((key) => cache.delete(key));
+    expect(cache.size()).toBe(0);
+    all.forEach((key) => cache.set(key, key));
+    expect(cache.size()).toBe(maxSize);
+    expect(all.filter((key) => cache.get(key) === key)).toHaveLength(maxSize);
+  }, 60000);
+
+  it("should reject keys and values that do not fit", () => {
+    const cache = SharedCache.create({ maxSize: 2, maxKeyBytes: 4, maxValueBytes: 4 });
+
+    expect(() => cache.set("toolong", "1")).toThrow("key must be at most 4 bytes");
+    expect(() => cache.set("a", "12345")).toThrow("value must be at most 4 bytes");
+    expect(() => cache.set("a", "ééé")).toThrow("value must be at most 4 bytes");
+    expect(() => cache.set("", "1")).toThrow("key must be a non-empty string");
+    expect(() => cache.set("a", new Uint8Array(1) as unknown as string)).toThrow("value must be a string");
+    expect(() => cache.set("a", "1", { ttlMs: 0 })).toThrow("ttlMs must be a positive number or Infinity");
+    expect(cache.size()).toBe(0);
+  });
+
+  it("should validate its options and handles", () => {
+    expect(() => SharedCache.create({ maxSize: 0, maxValueBytes: 4 })).toThrow("maxSize must be a positive integer");
+    expect(() => SharedCache.create({ maxSize: 2, maxValueBytes: 1.5 })).toThrow("maxValueBytes must be a positive integer");
+    expect(() => SharedCache.create({ maxSize: 2, maxValueBytes: 4, valueType: "json" as "string" }))
+      .toThrow("valueType must be 'string' or 'binary'");
+    expect(() => SharedCache.attach({ buffer: new SharedArrayBuffer(64) }))
+      .toThrow("handle must come from SharedCache.handle()");
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { Cache, loadSnapshot, saveSnapshot } from "../src/index";
+
+describe("Snapshot files", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "hybrid-lru-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should save and load a cache", async () => {
+    const file = path.join(dir, "cache.json");
+    const source = new Cache<string>({ maxSize: 5, autoCleanup: false });
+    source.set("a", "1");
+    source.set("b", "2");
+
+    expect(await saveSnapshot(source, file)).toBe(2);
+
+    const target = new Cache<string>({ maxSize: 5, autoCleanup: false });
+    expect(await loadSnapshot(target, file)).toBe(2);
+    expect([...target.entries()]).toEqual([["b", "2"], ["a", "1"]]);
+
+    source.destroy();
+    target.destroy();
+  });
+
+  it("should not leave temporary files behind", async () => {
+    const file = path.join(dir, "cache.json");
+    const cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+    cache.set("a", "1");
+
+    await saveSnapshot(cache, file);
+    await saveSnapshot(cache, file);
+
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- tests work in a temporary directory
+    expect(await fs.readdir(dir)).toEqual(["cache.json"]);
+
+    cache.destroy();
+  });
+
+  it("should load nothing when the file does not exist", async () => {
+    const cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+
+    expect(await loadSnapshot(cache, path.join(dir, "missing.json"))).toBe(0);
+    expect(cache.size()).toBe(0);
+
+    cache.destroy();
+  });
+
+  it("should surface write errors and clean up", async () => {
+    const cache = new Cache<string>({ maxSize: 5, autoCleanup: false });
+    cache.set("a", "1");
+
+    await expect(saveSnapshot(cache, path.join(dir, "missing", "cache.json"))).rejects.toThrow();
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- tests work in a temporary directory
+    expect(await fs.readdir(dir)).toEqual([]);
+
+    cache.destroy();
+  });
+
+  it("should pass codecs through", async () => {
+    const file = path.join(dir, "cache.json");
+    const codec = {
+      encode: (value: Set<string>) => [...value],
+      decode: (encoded: string[]) => new Set(encoded),
+    };
+    const source = new Cache<Set<string>>({ maxSize: 5, autoCleanup: false });
+    source.set("a", new Set(["x", "y"]));
+
+    await saveSnapshot(source, file, { codec });
+
+    const target = new Cache<Set<string>>({ maxSize: 5, autoCleanup: false });
+    await loadSnapshot(target, file, { codec });
+    expect(target.get("a")).toEqual(new Set(["x", "y"]));
+
+    source.destroy();
+    target.destroy();
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { FileStore, SecondaryStore, TieredCache } from "../src/index";
+
+class MemoryStore<T> implements SecondaryStore<T> {
+  entries = new Map<string, { value: T; expiresAt: number }>();
+  reads = 0;
+
+  async get(key: string): Promise<T | undefined> {
+    this.reads++;
+    const entry = this.entries.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry.value : undefined;
+  }
+
+  async set(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+
+  async ttl(key: string): Promise<number | null> {
+    const entry = this.entries.get(key);
+    return entry ? entry.expiresAt - Date.now() : null;
+  }
+}
+
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+describe("TieredCache", () => {
+  it("should write entries evicted for capacity to the store", async () => {
+    const store = new MemoryStore<number>();
+    const cache = new TieredCache<number>({ maxSize: 2, autoCleanup: false, store });
+
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.set("c", 3);
+    await settle();
+
+    expect(cache.memory.has("a")).toBe(false);
+    expect(store.entries.get("a")?.value).toBe(1);
+    expect(store.entries.has("b")).toBe(false);
+
+    cache.destroy();
+  });
+
+  it("should promote store hits back into memory with their remaining ttl", async () => {
+    const store = new MemoryStore<number>();
+    const cache = new TieredCache<number>({ maxSize: 2, autoCleanup: false, store });
+    await store.set("a", 1, 5000);
+
+    expect(await cache.get("a")).toBe(1);
+    expect(cache.memory.has("a")).toBe(true);
+    expect(cache.memory.getRemainingTtl("a")).toBeLessThanOrEqual(5000);
+    expect(cache.memory.getRemainingTtl("a")).toBeGreaterThan(4000);
+
+    cache.destroy();
+  });
+
+  it("should return null when neither tier has the key", async () => {
+    const cache = new TieredCache<number>({ maxSize: 2, autoCleanup: false, store: new MemoryStore() });
+
+    expect(await cache.get("missing")).toBeNull();
+
+    cache.destroy();
+  });
+
+  it("should read the store once for concurrent misses", async () => {
+    const store = new MemoryStore<number>();
+    const cache = new TieredCache<number>({ maxSize: 2, autoCleanup: false, store });
+    await store.set("a", 1, 5000);
+
+    const values = await Promise.all([cache.get("a"), cache.get("a"), cache.get("a")]);
+
+    expect(values).toEqual([1, 1, 1]);
+    expect(store.reads).toBe(1);
+
+    cache.destroy();
+  });
+
+  it("should find an entry that is still being written", async () => {
+    const store = new MemoryStore<number>();
+    const cache = new TieredCache<number>({ maxSize: 1, autoCleanup: false, store });
+
+    cache.set("a", 1);
+    cache.set("b", 2);
+
+    expect(await cache.get("a")).toBe(1);
+
+    cache.destroy();
+  });
+
+  it("should not let an older stored copy outlive a newer value", async () => {
+    const store = new MemoryStore<number>();
+    const cache = new TieredCache<number>({ maxSize: 1, autoCleanup: false, store });
+
+    cache.set("a", 1);
+    cache.set("b", 2);
+    await settle();
+    cache.set("a", 10, { ttlMs: 50 });
+    await settle();
+
+    expect(store.entries.has("a")).toBe(false);
+    expect(await cache.get("a")).toBe(10);
+
+    cache.destroy();
+  });
+
+  it("should delete from both tiers", async () => {
+    const store = new MemoryStore<number>();
+    const cache = new TieredCache<number>({ maxSize: 2, autoCleanup: false, store });
+    cache.set("a", 1);
+    await store.set("b", 2, 5000);
+
+    expect(await cache.delete("a")).toBe(true);
+    expect(await cache.delete("b")).toBe(true);
+    expect(await cache.delete("c")).toBe(false);
+    expect(await cache.get("b")).toBeNull();
+
+    cache.destroy();
+  });
+
+  it("should flush live entries to the store", async () => {
+    const store = new MemoryStore<number>();
+    const cache = new TieredCache<number>({ maxSize: 5, autoCleanup: false, store });
+    cache.set("a", 1);
+    cache.set("b", 2, { ttlMs: 1000 });
+
+    expect(await cache.flush()).toBe(2);
+    expect(store.entries.get("a")?.value).toBe(1);
+    expect(await store.ttl("b")).toBeLessThanOrEqual(1000);
+
+    cache.destroy();
+  });
+
+  it("should report failed background writes and still call onEvict", async () => {
+    const errors: unknown[] = [];
+    const evicted: string[] = [];
+    const store = new MemoryStore<number>();
+    store.set = async () => {
+      throw new Error("disk full");
+    };
+    const cache = new TieredCache<number>({
+      maxSize: 1,
+      autoCleanup: false,
+      store,
+      onStoreError: (error) => errors.push(error),
+      onEvict: (key) => evicted.push(key),
+    });
+
+    cache.set("a", 1);
+    cache.set("b", 2);
+    await settle();
+
+    expect(evicted).toEqual(["a"]);
+    expect(errors).toEqual([new Error("disk full")]);
+
+    cache.destroy();
+  });
+
+  it("should require a store", () => {
+    expect(() => new TieredCache({ maxSize: 1 } as never)).toThrow("store is required");
+  });
+});
+
+describe("FileStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "hybrid-lru-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should store, read and delete values", async () => {
+    const store = new FileStore<{ name: string }>({ directory: path.join(dir, "store") });
+
+    await store.set("user:1", { name: "Ada" }, Infinity);
+
+    expect(await store.get("user:1")).toEqual({ name: "Ada" });
+    expect(await store.ttl("user:1")).toBe(Infinity);
+    expect(await store.delete("user:1")).toBe(true);
+    expect(await store.delete("user:1")).toBe(false);
+    expect(await store.get("user:1")).toBeUndefined();
+    expect(await store.ttl("user:1")).toBeNull();
+  });
+
+  it("should drop expired files when they are read", async () => {
+    const store = new FileStore<number>({ directory: dir });
+
+    await store.set("a", 1, 20);
+    expect(await store.ttl("a")).toBeLessThanOrEqual(20);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(await store.get("a")).toBeUndefined();
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- tests work in a temporary directory
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it("should encode values with a codec", async () => {
+    const store = new FileStore<Date, string, string>({
+      directory: dir,
+      codec: { encode: (date) => date.toISOString(), decode: (text) => new Date(text) },
+    });
+
+    await store.set("when", new Date(0), 1000);
+
+    expect(await store.get("when")).toEqual(new Date(0));
+  });
+
+  it("should reject keys JSON cannot tell apart unless keyToString is given", async () => {
+    const store = new FileStore<number, unknown>({ directory: dir });
+
+    await expect(store.set({ id: 1 }, 1, 1000)).rejects.toThrow("keyToString is required");
+    await expect(store.get(Symbol("a"))).rejects.toThrow("keyToString is required");
+    await expect(store.get(NaN)).rejects.toThrow("keyToString is required");
+  });
+
+  it("should name files with keyToString", async () => {
+    const store = new FileStore<number, { id: number }>({ directory: dir, keyToString: (key) => String(key.id) });
+
+    await store.set({ id: 1 }, 1, 1000);
+    await store.set({ id: 2 }, 2, 1000);
+
+    expect(await store.get({ id: 1 })).toBe(1);
+    expect(await store.get({ id: 2 })).toBe(2);
+  });
+
+  it("should keep evicted entries across cache instances", async () => {
+    const first = new TieredCache<number>({ maxSize: 1, autoCleanup: false, store: new FileStore({ directory: dir }) });
+    first.set("a", 1);
+    first.set("b", 2);
+    await first.flush();
+    first.destroy();
+
+    const second = new TieredCache<number>({ maxSize: 1, autoCleanup: false, store: new FileStore({ directory: dir }) });
+
+    expect(await second.get("a")).toBe(1);
+    expect(await second.get("b")).toBe(2);
+
+    second.destroy();
+  });
+});